@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getSession, isAdmin } from '@/lib/auth/request';
+import { listUsers } from '@/lib/auth/users';
+import { summarizeUsage } from '@/lib/usage';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// Transcription usage of every user over the last `?days=` days (default 30).
+export async function GET(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    if (!isAdmin(session)) {
+      return NextResponse.json({ error: 'Admins only' }, { status: 403 });
+    }
+
+    const requested = Number(new URL(request.url).searchParams.get('days') ?? DEFAULT_DAYS);
+    const days = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_DAYS) : DEFAULT_DAYS;
+
+    const [summary, users] = await Promise.all([
+      summarizeUsage(Date.now() - days * 24 * 60 * 60 * 1000),
+      listUsers(),
+    ]);
+    const emails = new Map(users.map((user) => [user.id, user.email]));
+
+    return NextResponse.json({
+      days,
+      ...summary,
+      byUser: summary.byUser.map((entry) => ({ ...entry, email: emails.get(entry.userId) })),
+    });
+  } catch (error) {
+    console.error('Failed to summarise usage:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
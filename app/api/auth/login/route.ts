@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { setSessionCookie } from '@/lib/auth/request';
+import { authenticate, publicUser } from '@/lib/auth/users';
+import { parseCredentials } from '@/lib/auth/validate';
+import { clientAddress, takeRateLimits } from '@/lib/rate-limit';
+
+// Attempts each address, and each client, gets per window, so passwords
+// can't be guessed at speed.
+const LOGINS_PER_EMAIL = 10;
+const LOGINS_PER_CLIENT = 50;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+export async function POST(request: Request) {
+  try {
+    const parsed = parseCredentials(await request.json().catch(() => null));
+
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const address = clientAddress(request);
+    const rateLimits: [string, number][] = [[`login:email:${parsed.value.email}`, LOGINS_PER_EMAIL]];
+    if (address) rateLimits.push([`login:client:${address}`, LOGINS_PER_CLIENT]);
+    const rate = takeRateLimits(rateLimits, LOGIN_WINDOW_MS);
+    if (!rate.ok) {
+      return NextResponse.json(
+        { error: 'Too many sign-in attempts; try again later' },
+        { status: 429, headers: { 'Retry-After': String(rate.retryAfterSeconds) } },
+      );
+    }
+
+    const user = await authenticate(parsed.value.email, parsed.value.password);
+    if (!user) {
+      return NextResponse.json({ error: 'Wrong email or password' }, { status: 401 });
+    }
+    if (user === 'unconfirmed') {
+      return NextResponse.json(
+        { error: 'Confirm this email address first: sign up again with it to get a confirmation link' },
+        { status: 403 },
+      );
+    }
+
+    const response = NextResponse.json({ user: publicUser(user) });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth/request';
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { loginLink } from '@/lib/auth/links';
+import { sendMail } from '@/lib/auth/mailer';
+import { LOGIN_TOKEN_TTL_MS, createLoginToken } from '@/lib/auth/users';
+import { parseEmailBody } from '@/lib/auth/validate';
+import { clientAddress, takeRateLimits } from '@/lib/rate-limit';
+
+// Links each address, and each client, can ask for per window.
+const LINKS_PER_EMAIL = 5;
+const LINKS_PER_CLIENT = 20;
+const LINK_WINDOW_MS = 15 * 60 * 1000;
+
+// Sends a sign-in link. The answer is the same whether or not the address has
+// an account, so the form can't be used to find out who is registered.
+export async function POST(request: Request) {
+  try {
+    const parsed = parseEmailBody(await request.json().catch(() => null));
+
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const address = clientAddress(request);
+    const rateLimits: [string, number][] = [[`magic-link:email:${parsed.value.email}`, LINKS_PER_EMAIL]];
+    if (address) rateLimits.push([`magic-link:client:${address}`, LINKS_PER_CLIENT]);
+    const rate = takeRateLimits(rateLimits, LINK_WINDOW_MS);
+    if (!rate.ok) {
+      return NextResponse.json(
+        { error: 'Too many sign-in links requested; try again later' },
+        { status: 429, headers: { 'Retry-After': String(rate.retryAfterSeconds) } },
+      );
+    }
+
+    const link = loginLink(request, await createLoginToken(parsed.value.email));
+
+    await sendMail({
+      to: parsed.value.email,
+      subject: 'Your sign-in link for Notes',
+      text: `Open this link to sign in. It works once and expires in ${LOGIN_TOKEN_TTL_MS / 60_000} minutes.\n\n${link}`,
+    });
+    return NextResponse.json({ sent: true }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to send sign-in link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Links sent before they pointed at /login. Nothing is used up here: mail
+// scanners open links before people do, so the token is only spent by the
+// button on the sign-in page (see ./verify).
+export async function GET(request: Request) {
+  const link = new URL('/login', request.url);
+  const token = new URL(request.url).searchParams.get('token');
+  if (token) link.searchParams.set('token', token);
+  return NextResponse.redirect(link);
+}
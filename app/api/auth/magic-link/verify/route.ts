@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { setSessionCookie } from '@/lib/auth/request';
+import { publicUser, redeemLoginToken } from '@/lib/auth/users';
+import { parseTokenBody } from '@/lib/auth/validate';
+
+// Uses up the token from a sign-in link and signs in.
+export async function POST(request: Request) {
+  try {
+    const parsed = parseTokenBody(await request.json().catch(() => null));
+
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await redeemLoginToken(parsed.value.token);
+    if (!user) {
+      return NextResponse.json({ error: 'That sign-in link is invalid or has expired. Ask for a new one.' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ user: publicUser(user) });
+    await setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign in with link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { getUser, publicUser } from '@/lib/auth/users';
+
+export async function GET() {
+  const session = await getSession();
+  const user = session && (await getUser(session.sub));
+
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  return NextResponse.json({ user: publicUser(user) });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { loginLink } from '@/lib/auth/links';
+import { sendMail } from '@/lib/auth/mailer';
+import { LOGIN_TOKEN_TTL_MS, createSignUpToken } from '@/lib/auth/users';
+import { parseCredentials } from '@/lib/auth/validate';
+import { clientAddress, takeRateLimits } from '@/lib/rate-limit';
+
+// Sign-ups each address, and each client, can make per window, so accounts
+// can't be created in bulk.
+const SIGNUPS_PER_EMAIL = 5;
+const SIGNUPS_PER_CLIENT = 10;
+const SIGNUP_WINDOW_MS = 60 * 60 * 1000;
+
+// Nothing is created until the address is confirmed: the account, with its
+// password, comes from using the emailed link (see redeemLoginToken), so no one
+// can claim an address they can't read mail for.
+export async function POST(request: Request) {
+  try {
+    const parsed = parseCredentials(await request.json().catch(() => null), { signUp: true });
+
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const address = clientAddress(request);
+    const rateLimits: [string, number][] = [[`signup:email:${parsed.value.email}`, SIGNUPS_PER_EMAIL]];
+    if (address) rateLimits.push([`signup:client:${address}`, SIGNUPS_PER_CLIENT]);
+    const rate = takeRateLimits(rateLimits, SIGNUP_WINDOW_MS);
+    if (!rate.ok) {
+      return NextResponse.json(
+        { error: 'Too many sign-ups; try again later' },
+        { status: 429, headers: { 'Retry-After': String(rate.retryAfterSeconds) } },
+      );
+    }
+
+    const token = await createSignUpToken(parsed.value.email, parsed.value.password);
+    if (!token) {
+      return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+
+    await sendMail({
+      to: parsed.value.email,
+      subject: 'Confirm your Notes account',
+      text: `Open this link to confirm your email address and sign in. It works once and expires in ${LOGIN_TOKEN_TTL_MS / 60_000} minutes. If you didn't sign up, ignore this email.\n\n${loginLink(request, token)}`,
+    });
+    return NextResponse.json({ sent: true }, { status: 202 });
+  } catch (error) {
+    console.error('Failed to sign up:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { deleteNotebook, renameNotebook } from '@/lib/notes/notebooks';
+import { parseNotebookName } from '@/lib/notes/validate';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Renames the notebook.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseNotebookName(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const result = await renameNotebook(session.sub, id, parsed.value);
+    if (result.status === 'missing') {
+      return NextResponse.json({ error: 'Notebook not found' }, { status: 404 });
+    }
+    if (result.status === 'duplicate') {
+      return NextResponse.json({ error: 'A notebook with that name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ notebook: result.notebook });
+  } catch (error) {
+    console.error('Failed to rename notebook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Deletes the notebook; its notes stay, unfiled.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteNotebook(session.sub, id))) {
+      return NextResponse.json({ error: 'Notebook not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete notebook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
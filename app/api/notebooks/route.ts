@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { createNotebook, listNotebooks } from '@/lib/notes/notebooks';
+import { parseNotebookName } from '@/lib/notes/validate';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const notebooks = await listNotebooks(session.sub);
+    return NextResponse.json({ notebooks });
+  } catch (error) {
+    console.error('Failed to list notebooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseNotebookName(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await createNotebook(session.sub, parsed.value);
+    if (result.status !== 'ok') {
+      return NextResponse.json({ error: 'A notebook with that name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ notebook: result.notebook }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create notebook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
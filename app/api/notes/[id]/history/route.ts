@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { getHistory } from '@/lib/notes/store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const revisions = await getHistory(session.sub, id);
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('Failed to read note history:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { takeAiAllowance } from '@/lib/ai-limits';
+import { getSession } from '@/lib/auth/request';
+import { EmbeddingError, getEmbeddingProvider } from '@/lib/embeddings';
+import { relatedNotes } from '@/lib/notes/embeddings';
+import { logAiRequest } from '@/lib/usage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const refused = await takeAiAllowance(request, session.sub);
+    if (refused) {
+      return NextResponse.json(
+        { error: refused.error },
+        { status: 429, headers: { 'Retry-After': String(refused.retryAfterSeconds) } },
+      );
+    }
+
+    const { id } = await params;
+    const matches = await relatedNotes(session.sub, id);
+    if (!matches) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 });
+    }
+    await logAiRequest(session.sub, { action: 'related', provider: getEmbeddingProvider()?.id ?? 'none', characters: 0 });
+    return NextResponse.json({ matches });
+  } catch (error) {
+    if (error instanceof EmbeddingError) {
+      console.error(`Embedding error (${error.provider ?? 'none'}):`, error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to find related notes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { after, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { indexNote } from '@/lib/notes/embeddings';
+import { deleteNote, getNote, updateNote, type WriteResult } from '@/lib/notes/store';
+import { parseNotePatch, parseRevisionSource } from '@/lib/notes/validate';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseRevision(value: unknown): number | undefined {
+  const revision = typeof value === 'string' ? Number(value) : value;
+  return typeof revision === 'number' && Number.isInteger(revision) ? revision : undefined;
+}
+
+// A conflict returns the current server copy so the client can merge against it.
+function writeResponse(result: WriteResult, okStatus = 200) {
+  switch (result.status) {
+    case 'missing':
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 });
+    case 'conflict':
+      return NextResponse.json({ error: 'Note was changed by another device', note: result.note }, { status: 409 });
+    case 'ok':
+      return okStatus === 204 ? new NextResponse(null, { status: 204 }) : NextResponse.json({ note: result.note });
+  }
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const note = await getNote(session.sub, id);
+
+    if (!note) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 });
+    }
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error('Failed to read note:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = parseNotePatch(body);
+
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await updateNote(session.sub, id, parsed.value, {
+      baseRevision: parseRevision(body.baseRevision),
+      writerId: typeof body.writerId === 'string' ? body.writerId : undefined,
+      source: parseRevisionSource(body.source),
+    });
+    if (result.status === 'ok') {
+      const { note } = result;
+      after(() => indexNote(session.sub, note));
+    }
+    return writeResponse(result);
+  } catch (error) {
+    console.error('Failed to update note:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const result = await deleteNote(session.sub, id, {
+      baseRevision: parseRevision(searchParams.get('baseRevision')),
+      writerId: searchParams.get('writerId') ?? undefined,
+    });
+    return writeResponse(result, 204);
+  } catch (error) {
+    console.error('Failed to delete note:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { takeAiAllowance } from '@/lib/ai-limits';
+import { getSession } from '@/lib/auth/request';
+import { EmbeddingError, getEmbeddingProvider } from '@/lib/embeddings';
+import { askNotes } from '@/lib/notes/embeddings';
+import { logAiRequest } from '@/lib/usage';
+
+const MAX_QUERY_LENGTH = 1000;
+
+// Finds notes by meaning: "the idea about onboarding" matches "new hire setup".
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const query = typeof body?.query === 'string' ? body.query.trim() : '';
+
+    if (!query) {
+      return NextResponse.json({ error: 'No question provided' }, { status: 400 });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: 'Question is too long' }, { status: 413 });
+    }
+
+    const refused = await takeAiAllowance(request, session.sub);
+    if (refused) {
+      return NextResponse.json(
+        { error: refused.error },
+        { status: 429, headers: { 'Retry-After': String(refused.retryAfterSeconds) } },
+      );
+    }
+
+    const matches = await askNotes(session.sub, query);
+    await logAiRequest(session.sub, { action: 'ask', provider: getEmbeddingProvider()?.id ?? 'none', characters: query.length });
+    return NextResponse.json({ matches });
+  } catch (error) {
+    if (error instanceof EmbeddingError) {
+      console.error(`Embedding error (${error.provider ?? 'none'}):`, error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to search notes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { after, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { indexNote } from '@/lib/notes/embeddings';
+import { createNote, listNotes } from '@/lib/notes/store';
+import { parseNoteInput } from '@/lib/notes/validate';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required', code: 'unauthorized' }, { status: 401 });
+    }
+
+    const notes = await listNotes(session.sub);
+    return NextResponse.json({ notes });
+  } catch (error) {
+    console.error('Failed to list notes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required', code: 'unauthorized' }, { status: 401 });
+    }
+
+    const parsed = parseNoteInput(await request.json().catch(() => null));
+
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const note = await createNote(session.sub, parsed.value);
+    after(() => indexNote(session.sub, note));
+    return NextResponse.json({ note }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create note:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { after, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { indexNote } from '@/lib/notes/embeddings';
+import { purgeTrash, restoreNote } from '@/lib/notes/store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Restores the note from the trash.
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await restoreNote(session.sub, id);
+    if (result.status !== 'ok') {
+      return NextResponse.json({ error: 'Note is not in the trash' }, { status: 404 });
+    }
+    const { note } = result;
+    after(() => indexNote(session.sub, note));
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error('Failed to restore note:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Deletes the note for good.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const purged = await purgeTrash(session.sub, id);
+    if (purged.length === 0) {
+      return NextResponse.json({ error: 'Note is not in the trash' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete note:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
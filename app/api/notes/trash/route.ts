@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { listTrash, purgeTrash, trashRetentionDays } from '@/lib/notes/store';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const notes = await listTrash(session.sub);
+    return NextResponse.json({ notes, retentionDays: trashRetentionDays() });
+  } catch (error) {
+    console.error('Failed to list trash:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Empties the trash.
+export async function DELETE() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const purged = await purgeTrash(session.sub);
+    return NextResponse.json({ purged: purged.length });
+  } catch (error) {
+    console.error('Failed to empty trash:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
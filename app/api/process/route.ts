@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { takeAiAllowance } from '@/lib/ai-limits';
+import { getSession } from '@/lib/auth/request';
+import { processTranscript, ProcessingError, type ProcessingAction } from '@/lib/processing';
+import { logAiRequest } from '@/lib/usage';
+
+const ACTIONS: ProcessingAction[] = ['cleanup', 'summarize'];
+const MAX_TEXT_LENGTH = 20_000;
+
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || !ACTIONS.includes(body.action)) {
+      return NextResponse.json({ error: `Action must be one of: ${ACTIONS.join(', ')}` }, { status: 400 });
+    }
+    if (typeof body.text !== 'string' || !body.text.trim()) {
+      return NextResponse.json({ error: 'No text provided' }, { status: 400 });
+    }
+    if (body.text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: 'Text is too long to process' }, { status: 413 });
+    }
+
+    const refused = await takeAiAllowance(request, session.sub);
+    if (refused) {
+      return NextResponse.json(
+        { error: refused.error },
+        { status: 429, headers: { 'Retry-After': String(refused.retryAfterSeconds) } },
+      );
+    }
+
+    const result = await processTranscript({ action: body.action, text: body.text });
+    await logAiRequest(session.sub, { action: 'process', provider: result.provider, characters: body.text.length });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ProcessingError) {
+      console.error(`Processing error (${error.provider ?? 'none'}):`, error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Server error during processing:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,45 +1,150 @@
 import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/request';
+import { clientAddress, takeRateLimits } from '@/lib/rate-limit';
+import { transcribe, TranscriptionError, type TranscribeErrorCode } from '@/lib/transcription';
+import { SNIFF_BYTES, sniffAudioFormat, wavByteRate } from '@/lib/transcription/audio-format';
+import { isTranscriptionLanguage } from '@/lib/transcription/languages';
+import { estimateAudioSeconds, getTranscriptionLimits } from '@/lib/transcription/limits';
+import { addSegment, finishSession } from '@/lib/transcription/sessions';
+import { recordTranscription, releaseSeconds, reserveSeconds, secondsUntilUtcMidnight } from '@/lib/usage';
+
+// Room for the multipart boundaries and text fields around the audio.
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// Every error carries a `code` (see TranscribeErrorCode) for the client to act on.
+function fail(code: TranscribeErrorCode, error: string, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error, code }, { status, headers });
+}
+
+function minutes(seconds: number): string {
+  const count = Math.round(seconds / 60);
+  return `${count} ${count === 1 ? 'minute' : 'minutes'}`;
+}
 
 export async function POST(request: Request) {
   try {
+    const session = await getSession();
+    if (!session) {
+      return fail('unauthorized', 'Sign in required', 401);
+    }
+
+    // Limits are checked before the upload is read, let alone forwarded.
+    // Without a trusted proxy the client's address is unknown, and only the user is limited.
+    const limits = getTranscriptionLimits();
+    const address = clientAddress(request);
+    const rateLimits: [string, number][] = [[`transcribe:user:${session.sub}`, limits.userRequestsPerMinute]];
+    if (address) rateLimits.push([`transcribe:client:${address}`, limits.clientRequestsPerMinute]);
+    const rate = takeRateLimits(rateLimits);
+    if (!rate.ok) {
+      return fail('rate_limited', 'Too many transcription requests; slow down', 429, {
+        'Retry-After': String(rate.retryAfterSeconds),
+      });
+    }
+
+    const tooLarge = `Audio file is larger than ${Math.round(limits.maxUploadBytes / (1024 * 1024))} MB`;
+    const contentLength = Number(request.headers.get('content-length'));
+    if (limits.maxUploadBytes > 0 && contentLength > limits.maxUploadBytes + FORM_OVERHEAD_BYTES) {
+      return fail('payload_too_large', tooLarge, 413);
+    }
+
     // 1. Get the form data sent from page.tsx
-    const formData = await request.formData();
-    const file = formData.get('file') as Blob;
+    const formData = await request.formData().catch(() => null);
+    if (!formData) {
+      return fail('invalid_request', 'Expected a multipart form upload', 400);
+    }
+    const upload = formData.get('file');
+    const file = upload instanceof Blob ? upload : null;
+    const language = formData.get('language') ?? 'auto';
+    const translate = formData.get('translate') === 'true';
+
+    // Long recordings arrive as numbered segments of one session; the last
+    // one is flagged final and may carry no audio at all.
+    const sessionId = formData.get('sessionId');
+    const sequence = Number(formData.get('sequence') ?? 0);
+    const final = formData.get('final') === 'true';
 
-    if (!file) {
-      return NextResponse.json({ error: 'No audio file provided' }, { status: 400 });
+    if (!file && !(typeof sessionId === 'string' && final)) {
+      return fail('missing_audio', 'No audio file provided', 400);
+    }
+    if (!isTranscriptionLanguage(language)) {
+      return fail('invalid_request', `Unsupported language "${language}"`, 400);
     }
 
-    // 2. Prepare the payload for OpenAI
-    // We package the blob into a new FormData object specifically for OpenAI
-    const openAiFormData = new FormData();
-    openAiFormData.append('file', file, 'audio.webm'); 
-    openAiFormData.append('model', 'whisper-1');
+    let audio: Blob | null = null;
+    let filename = '';
+    let seconds = 0;
+    // Quota held while the audio is transcribed (see reserveSeconds).
+    let reservedSeconds = 0;
+    if (file) {
+      if (limits.maxUploadBytes > 0 && file.size > limits.maxUploadBytes) {
+        return fail('payload_too_large', tooLarge, 413);
+      }
 
-    // 3. Call the OpenAI Whisper API directly
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: openAiFormData,
-    });
+      // The container is read from the file itself; the client's name and
+      // type are ignored, so providers always get a matching extension.
+      const header = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+      const format = sniffAudioFormat(header);
+      if (!format) {
+        return fail('unsupported_format', 'Unsupported audio format; use WebM, MP4/M4A, Ogg, WAV or MP3', 415);
+      }
+      audio = new Blob([file], { type: format.mimeType });
+      filename = `audio.${format.extension}`;
 
-    const data = await response.json();
+      seconds = estimateAudioSeconds(file.size, Number(formData.get('durationMs')) || undefined, wavByteRate(header));
+      if (limits.maxAudioSeconds > 0 && seconds > limits.maxAudioSeconds) {
+        return fail('audio_too_long', `Audio is longer than ${minutes(limits.maxAudioSeconds)}`, 413);
+      }
+      if (limits.dailySeconds > 0) {
+        if (!(await reserveSeconds(session.sub, seconds, limits.dailySeconds))) {
+          return fail('quota_exceeded', `Daily transcription limit of ${minutes(limits.dailySeconds)} reached`, 429, {
+            'Retry-After': String(secondsUntilUtcMidnight()),
+          });
+        }
+        reservedSeconds = seconds;
+      }
+    }
 
-    if (!response.ok) {
-      console.error("OpenAI API Error:", data);
-      return NextResponse.json(
-        { error: data.error?.message || 'Transcription failed at OpenAI' }, 
-        { status: response.status }
-      );
+    // 2. Hand the audio to the configured provider chain (see lib/transcription).
+    // The reservation is dropped once the usage is recorded, or the provider failed.
+    let result: Awaited<ReturnType<typeof transcribe>> | null = null;
+    try {
+      result = audio ? await transcribe({ audio, filename, language, translate }) : null;
+      if (audio && result) {
+        await recordTranscription(session.sub, {
+          provider: result.provider,
+          seconds: result.durationSeconds ?? seconds,
+          bytes: audio.size,
+          translated: translate,
+        });
+      }
+    } finally {
+      if (reservedSeconds > 0) releaseSeconds(session.sub, reservedSeconds);
     }
+    const segment = {
+      text: result?.text ?? '',
+      language: result?.language,
+      translation: result?.translation,
+    };
+
+    if (typeof sessionId !== 'string') {
+      return NextResponse.json({ ...segment, provider: result?.provider });
+    }
+
+    // 3. Stitch the segment into the session's running transcript. Session ids
+    // come from the client, so they are kept apart per user.
+    const key = `${session.sub}:${sessionId}`;
+    let transcript = addSegment(key, sequence, segment);
+    if (final) transcript = finishSession(key);
 
     // 4. Return the transcribed text to the frontend
-    return NextResponse.json({ text: data.text });
+    return NextResponse.json({ ...transcript, segment: segment.text, sequence, final, provider: result?.provider });
 
   } catch (error) {
+    if (error instanceof TranscriptionError) {
+      console.error(`Transcription error (${error.provider ?? 'none'}):`, error.message);
+      return fail(error.code, error.message, error.status);
+    }
     console.error('Server error during transcription:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return fail('internal_error', 'Internal server error', 500);
   }
 }
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getAiLimits } from '@/lib/ai-limits';
+import { getSession } from '@/lib/auth/request';
+import { getTranscriptionLimits } from '@/lib/transcription/limits';
+import { getUsage, utcDay } from '@/lib/usage';
+
+export async function GET() {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+
+  const usage = await getUsage(session.sub);
+  const { dailySeconds } = getTranscriptionLimits();
+  const { dailyRequests } = getAiLimits();
+  const today = utcDay(Date.now());
+  return NextResponse.json({
+    usage,
+    quota: {
+      dailySeconds,
+      usedTodaySeconds: usage.daily[today] ?? 0,
+      dailyAiRequests: dailyRequests,
+      usedTodayAiRequests: usage.aiDaily[today] ?? 0,
+    },
+  });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { appIcon } from '@/lib/app-icon';
+
+// Sizes listed in app/manifest.ts.
+const SIZES = [192, 512];
+
+export async function GET(_request: Request, { params }: { params: Promise<{ size: string }> }) {
+  const size = Number((await params).size);
+  if (!SIZES.includes(size)) {
+    return NextResponse.json({ error: 'Unknown icon size' }, { status: 404 });
+  }
+  return appIcon(size);
+}
@@ -1,5 +1,6 @@
-import type {Metadata} from 'next';
+import type {Metadata, Viewport} from 'next';
 import { Inter, Space_Mono } from 'next/font/google';
+import { ServiceWorkerRegistration } from '@/components/service-worker-registration';
 import './globals.css';
 
 const inter = Inter({
@@ -16,6 +17,14 @@ const spaceMono = Space_Mono({
 export const metadata: Metadata = {
   title: 'Brutalist Notes',
   description: 'A simple, minimalist note-taking app.',
+  appleWebApp: {
+    capable: true,
+    title: 'Notes',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#F5F2ED',
 };
 
 export default function RootLayout({children}: {children: React.ReactNode}) {
@@ -23,6 +32,7 @@ export default function RootLayout({children}: {children: React.ReactNode}) {
     <html lang="en" className={`${inter.variable} ${spaceMono.variable}`}>
       <body suppressHydrationWarning className="bg-[#F5F2ED] text-black antialiased font-sans">
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
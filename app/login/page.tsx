@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { LogIn, Loader2, Mail } from 'lucide-react';
+
+type Mode = 'sign-in' | 'sign-up' | 'link';
+
+const SUBMIT_LABELS: Record<Mode, string> = {
+  'sign-in': 'Sign in',
+  'sign-up': 'Create account',
+  link: 'Email me a link',
+};
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  // Token from an emailed link. It's only spent when the button is pressed, so
+  // mail scanners opening the link don't use it up.
+  const [linkToken, setLinkToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLinkToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setLinkSentTo(null);
+    setLinkToken(null);
+  };
+
+  const signInWithLink = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/magic-link/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: linkToken }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Sign-in failed');
+      }
+      window.location.assign('/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      setLinkToken(null);
+      setMode('link');
+      window.history.replaceState(null, '', '/login');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const endpoint = mode === 'link' ? '/api/auth/magic-link' : mode === 'sign-up' ? '/api/auth/signup' : '/api/auth/login';
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'link' ? { email } : { email, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Sign-in failed');
+      }
+
+      // Both email a link: sign-ups are confirmed before the account exists.
+      if (mode !== 'sign-in') {
+        setLinkSentTo(email);
+      } else {
+        window.location.assign('/');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 md:p-8">
+      <div className="relative w-full max-w-md mt-12">
+        <div className="absolute -top-6 left-1/2 -translate-x-1/2 z-20">
+          <div className="bg-[#E6B3A3] border-[3px] border-black px-10 py-2 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] rounded-sm">
+            <h1 className="font-mono font-bold text-lg tracking-widest uppercase">
+              Notes
+            </h1>
+          </div>
+        </div>
+
+        <div className="bg-white border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6 md:p-10">
+          <div className="flex gap-2 mb-6 font-mono text-[10px] uppercase tracking-[0.2em] font-bold">
+            {(['sign-in', 'sign-up', 'link'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => switchMode(option)}
+                className={`flex-1 border-2 border-black px-2 py-1 transition-colors ${
+                  mode === option ? 'bg-black text-white' : 'bg-white hover:bg-[#E6B3A3]'
+                }`}
+              >
+                {option === 'sign-in' ? 'Sign in' : option === 'sign-up' ? 'Sign up' : 'Email link'}
+              </button>
+            ))}
+          </div>
+
+          {linkToken ? (
+            <div className="flex flex-col items-center gap-4 py-6 text-center">
+              <p className="font-mono text-sm">Finish signing in with the link from your email.</p>
+              <button
+                onClick={signInWithLink}
+                disabled={isSubmitting}
+                className="w-full flex items-center justify-center gap-2 border-2 border-black bg-black text-white py-2 font-mono text-sm uppercase tracking-widest hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+                Sign in
+              </button>
+            </div>
+          ) : linkSentTo ? (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              <Mail className="w-8 h-8" />
+              <p className="font-mono text-sm">
+                Check {linkSentTo} for a {mode === 'sign-up' ? 'link to confirm your account' : 'sign-in link'}.
+              </p>
+              <p className="text-xs opacity-50">The link works once and expires in 15 minutes.</p>
+            </div>
+          ) : (
+            <form onSubmit={submit} className="space-y-4">
+              <label className="block">
+                <span className="font-mono text-[10px] uppercase tracking-widest opacity-50">Email</span>
+                <input
+                  type="email"
+                  required
+                  autoFocus
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full bg-[#F5F2ED] border-2 border-black px-3 py-2 outline-none font-sans"
+                />
+              </label>
+              {mode !== 'link' && (
+                <label className="block">
+                  <span className="font-mono text-[10px] uppercase tracking-widest opacity-50">Password</span>
+                  <input
+                    type="password"
+                    required
+                    minLength={mode === 'sign-up' ? 8 : undefined}
+                    autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full bg-[#F5F2ED] border-2 border-black px-3 py-2 outline-none font-sans"
+                  />
+                </label>
+              )}
+              {error && <p className="font-mono text-xs text-red-600 font-bold uppercase">{error}</p>}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex items-center justify-center gap-2 border-2 border-black bg-black text-white py-2 font-mono text-sm uppercase tracking-widest hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {SUBMIT_LABELS[mode]}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Brutalist Notes',
+    short_name: 'Notes',
+    description: 'A simple, minimalist note-taking app.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#F5F2ED',
+    theme_color: '#F5F2ED',
+    icons: [
+      { src: '/icons/192', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/512', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/512', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+}
@@ -1,88 +1,356 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Trash2, X, Check, Edit2, Mic, Loader2 } from 'lucide-react';
-import { motion, AnimatePresence } from 'motion/react';
-
-interface Note {
-  id: string;
-  content: string;
-  createdAt: number;
+import React, { useState, useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
+import { Plus, Trash2, X, Check, Edit2, Mic, Loader2, RotateCcw, Search, Wand2, ListChecks, Undo2, Download, Upload, FileAudio, History, Sparkles, CalendarClock, CalendarDays, Pin, PinOff, Archive, ArchiveRestore } from 'lucide-react';
+import { motion, AnimatePresence, Reorder } from 'motion/react';
+import { AudioPlayer } from '@/components/audio-player';
+import { DueBadge, DueSuggestion } from '@/components/due-date';
+import { Highlight } from '@/components/highlight';
+import { NoteHistory } from '@/components/note-history';
+import { NoteContent } from '@/components/note-content';
+import { NotebookTabs } from '@/components/notebook-tabs';
+import { PendingNote } from '@/components/pending-note';
+import { RelatedNotes } from '@/components/related-notes';
+import { SortableNote } from '@/components/sortable-note';
+import { TrashPanel } from '@/components/trash-panel';
+import { UndoToast, type UndoAction } from '@/components/undo-toast';
+import { useAskNotes } from '@/hooks/use-ask-notes';
+import { useNotebooks } from '@/hooks/use-notebooks';
+import { useNotes } from '@/hooks/use-notes';
+import { usePendingRecordings } from '@/hooks/use-pending-recordings';
+import { useReminders } from '@/hooks/use-reminders';
+import { useVoiceActivity } from '@/hooks/use-voice-activity';
+import { trimSilence } from '@/lib/audio-trim';
+import { useSession } from '@/hooks/use-session';
+import { loadAudio, saveAudio } from '@/lib/audio-store';
+import { ImportError, exportJson, exportMarkdownZip, readImport } from '@/lib/notes/archive';
+import { taskProgress, toggleTask } from '@/lib/notes/checklist';
+import { byDueDate } from '@/lib/notes/due-date';
+import { exportIcs } from '@/lib/notes/ics';
+import { positionBetween } from '@/lib/notes/order';
+import { NOTE_SORTS, NoteSearchIndex, highlightPattern, sortNotes, type NoteSort } from '@/lib/notes/search';
+import { noteTags } from '@/lib/notes/tags';
+import type { AudioAttachment, Note, NotePatch, VoiceNoteDetails } from '@/lib/notes/types';
+import type { ProcessingAction } from '@/lib/processing/types';
+import { SegmentedRecorder } from '@/lib/recording/segmented-recorder';
+import { initialVoiceState, voiceReducer } from '@/lib/recording/state';
+import { TranscriptionRequestError, audioFilename, isRetryable, requestTranscription } from '@/lib/transcription/client';
+import {
+  TRANSCRIPTION_LANGUAGES,
+  isTranscriptionLanguage,
+  languageLabel,
+  type TranscriptionLanguage,
+} from '@/lib/transcription/languages';
+import { formatDuration } from '@/lib/utils';
+import { commandEdit, describeNote, parseVoiceCommand, resolveTarget, type VoiceCommand } from '@/lib/voice-commands';
+
+// Recordings are cut into self-contained segments so each one can be
+// transcribed while the user is still talking.
+const SEGMENT_SECONDS = 10;
+const MAX_RECORDING_SECONDS = 10 * 60;
+
+const VOICE_SETTINGS_KEY = 'brutalist-notes-voice';
+
+// Hold the button (or Space) while speaking, or tap once and let silence end it.
+type RecordMode = 'hold' | 'toggle';
+
+// Length of an audio file as the browser decodes it, if it can.
+function readAudioDuration(file: Blob): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (durationMs?: number) => {
+      URL.revokeObjectURL(url);
+      resolve(durationMs);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : undefined);
+    audio.onerror = () => done(undefined);
+    audio.src = url;
+  });
+}
+
+function downloadFile(data: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Everything a segment upload needs; the final one also carries the whole
+// recording so it can be attached to the note.
+interface SegmentUpload {
+  sessionId: string;
+  sequence: number;
+  final: boolean;
+  segmentMs: number;
+  recording?: Promise<Blob>;
+  durationMs?: number;
+}
+
+// What to tell the user when a transcription fails and the audio is queued.
+function queuedMessage(error: unknown): string {
+  if (!(error instanceof TranscriptionRequestError)) return 'Transcription failed — saved, will retry';
+  return isRetryable(error) ? `${error.summary} — saved, will retry` : error.summary;
+}
+
+// Focus is in a text field, where Space types rather than records.
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 }
 
 // --- Voice Waveform Component ---
-function VoiceWaveform() {
-  const heights = [20, 35, 25, 40, 30, 45, 20, 30];
+// Recent microphone levels (0–1), oldest first, scrolling right to left.
+function VoiceWaveform({ levels, speaking }: { levels: number[]; speaking: boolean }) {
   return (
     <div className="flex items-center gap-1.5 h-10">
-      {heights.map((h, i) => (
+      {levels.map((level, i) => (
         <motion.div
           key={i}
-          animate={{ height: [10, h, 10] }}
-          transition={{ duration: 0.4, repeat: Infinity, delay: i * 0.05, ease: "easeInOut" }}
-          className="w-1.5 bg-white rounded-full opacity-80"
+          animate={{ height: 6 + level * 34 }}
+          transition={{ duration: 0.05, ease: "linear" }}
+          className={`w-1.5 rounded-full ${speaking ? 'bg-[#E6B3A3]' : 'bg-white opacity-80'}`}
         />
       ))}
     </div>
   );
 }
 
+function TaskCount({ content }: { content: string }) {
+  const { done, total } = taskProgress(content);
+  if (total === 0) return null;
+  return (
+    <span className="text-[10px] font-mono uppercase tracking-tighter border border-black/40 px-1 opacity-60">
+      {done}/{total} done
+    </span>
+  );
+}
+
 export default function NoteApp() {
-  const [notes, setNotes] = useState<Note[]>([]);
+  const { user, signOut } = useSession();
+  const { notes, pendingCount, addNote: createNote, updateNote, deleteNote, restoreNote, importNotes, refresh } = useNotes(user?.id);
+  // Recordings whose transcription failed wait here and become notes once it
+  // succeeds. The note takes the recording's id, as it does when the service
+  // worker saves it, so the two can't both create it.
+  const { pending, activeId, enqueueRecording, retryRecording, discardRecording } = usePendingRecordings(
+    (recording, data) => {
+      const text = data.text?.trim() ?? '';
+      const translation = data.translation?.trim();
+      createNote(translation || text, {
+        language: data.language,
+        originalText: translation ? text : undefined,
+        attachment: recording.attachment,
+      }, 'voice', { id: recording.id, createdAt: recording.createdAt });
+    },
+  );
+  // Due dates read from notes, and notifications when reminders come due.
+  const reminders = useReminders(notes, updateNote);
+  // Deleting a notebook unfiles its notes on the server, so they're fetched again.
+  const notebooks = useNotebooks(user?.id, refresh);
   const [isAdding, setIsAdding] = useState(false);
   const [newNoteContent, setNewNoteContent] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
 
+  // Search & Filter States
+  const [query, setQuery] = useState('');
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<NoteSort>('created-desc');
+  const [searchIndex] = useState(() => new NoteSearchIndex());
+  // Ask mode searches by meaning on the server when the query is submitted.
+  const [askMode, setAskMode] = useState(false);
+  const askResults = useAskNotes();
+  // Upcoming lists only notes with a due date, soonest first.
+  const [showUpcoming, setShowUpcoming] = useState(false);
+  // Note to scroll to once it's on screen (from a related-notes link).
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
+
+  // Notebook States: null shows every notebook; new notes go in the open one.
+  const [notebookId, setNotebookId] = useState<string | null>(null);
+  const [showArchive, setShowArchive] = useState(false);
+  // The order of the list while a note is being dragged; saved when it's dropped.
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null);
+
+  // Selection & Import/Export States
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // History & Trash States
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const historyNote = notes.find((note) => note.id === historyNoteId);
+
+  // Undo States
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const undoActionRef = useRef<UndoAction | null>(null);
+  // Transcriptions finish in callbacks from the render that started recording,
+  // so voice commands resolve against this rather than a stale `notes`.
+  const notesRef = useRef(notes);
+
   // Voice States
-  const [isRecording, setIsRecording] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [recordingTime, setRecordingTime] = useState(0);
-  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [voice, dispatchVoice] = useReducer(voiceReducer, initialVoiceState);
+  const isRecording = voice.status === 'recording';
+  const isProcessing = voice.status === 'processing';
+  const voiceError = voice.error;
+  const [language, setLanguage] = useState<TranscriptionLanguage>('auto');
+  const [translate, setTranslate] = useState(false);
+  const [recordMode, setRecordMode] = useState<RecordMode>('hold');
+  const voiceActivity = useVoiceActivity();
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const recorderRef = useRef<SegmentedRecorder | null>(null);
+  const [retranscribingId, setRetranscribingId] = useState<string | null>(null);
+  const [processingNoteId, setProcessingNoteId] = useState<string | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const startTimeRef = useRef<number>(0);
-  const mimeTypeRef = useRef<string>('audio/webm');
+  // True whenever no recording is in progress or the current one is ending.
+  const finishingRef = useRef<boolean>(true);
+  const uploadChainRef = useRef<Promise<void>>(Promise.resolve());
+  // Sessions where a segment failed to upload, leaving the stitched
+  // transcript with a gap; the whole recording is transcribed again instead.
+  const failedSessionsRef = useRef<Set<string>>(new Set());
+  // Whether any segment of the recording being uploaded had speech in it.
+  const speechHeardRef = useRef<boolean>(false);
 
-  // Load notes from local storage
   useEffect(() => {
-    const savedNotes = localStorage.getItem('brutalist-notes');
-    if (savedNotes) {
-      try {
-        const parsed = JSON.parse(savedNotes);
-        if (Array.isArray(parsed)) setNotes(parsed);
-      } catch (e) {
-        console.error('Failed to parse notes', e);
-      }
+    notesRef.current = notes;
+  }, [notes]);
+
+  const visibleNotes = useMemo(() => {
+    const shown = (note: Note) => {
+      if (showArchive !== (note.archivedAt !== undefined)) return false;
+      if (notebookId && note.notebookId !== notebookId) return false;
+      const tags = noteTags(note);
+      return activeTags.every((tag) => tags.includes(tag));
+    };
+    // Answers to a question stay in order of closeness.
+    if (askMode && askResults.matches) {
+      return askResults.matches.flatMap((match) => notes.find((note) => note.id === match.id && shown(note)) ?? []);
     }
-  }, []);
 
-  // Save notes to local storage
-  useEffect(() => {
-    localStorage.setItem('brutalist-notes', JSON.stringify(notes));
+    searchIndex.update(notes);
+    const matches = askMode ? null : searchIndex.search(query);
+    const filtered = notes.filter((note) => shown(note) && (!matches || matches.has(note.id)));
+    return showUpcoming ? byDueDate(filtered) : sortNotes(filtered, sort);
+  }, [notes, query, activeTags, sort, searchIndex, askMode, askResults.matches, showUpcoming, showArchive, notebookId]);
+
+  // Notes can be dragged only when they're listed in their manual order.
+  const canReorder = sort === 'manual' && !showUpcoming && !(askMode && askResults.matches);
+  const listedNotes = useMemo(() => {
+    if (!dragOrder) return visibleNotes;
+    return dragOrder.flatMap((id) => visibleNotes.find((note) => note.id === id) ?? []);
+  }, [dragOrder, visibleNotes]);
+
+  const dueCount = useMemo(() => notes.filter((note) => note.dueAt !== undefined).length, [notes]);
+
+  // Notes in each notebook, leaving out the archive.
+  const notebookCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const note of notes) {
+      if (note.notebookId && note.archivedAt === undefined) counts.set(note.notebookId, (counts.get(note.notebookId) ?? 0) + 1);
+    }
+    return counts;
+  }, [notes]);
+
+  // Every tag in use, most used first.
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const note of notes) {
+      for (const tag of noteTags(note)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
   }, [notes]);
 
-  const addNote = (content?: string) => {
+  const highlight = useMemo(() => (askMode ? null : highlightPattern(query)), [askMode, query]);
+
+  const toggleTag = (tag: string) => {
+    setActiveTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const clearSearch = () => {
+    setQuery('');
+    askResults.clear();
+  };
+
+  const toggleAskMode = () => {
+    setAskMode((prev) => !prev);
+    setShowUpcoming(false);
+    askResults.clear();
+  };
+
+  const toggleUpcoming = () => {
+    setShowUpcoming((prev) => !prev);
+    setAskMode(false);
+    askResults.clear();
+  };
+
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (askMode && query.trim()) askResults.ask(query.trim());
+  };
+
+  const toggleArchive = () => {
+    setShowArchive((prev) => !prev);
+    setShowUpcoming(false);
+  };
+
+  const deleteNotebook = async (id: string) => {
+    if (await notebooks.remove(id)) setNotebookId((prev) => (prev === id ? null : prev));
+  };
+
+  // Clears the search and filters if they hide the note, then scrolls to it.
+  const showNote = (id: string) => {
+    if (!visibleNotes.some((note) => note.id === id)) {
+      const note = notes.find((n) => n.id === id);
+      clearSearch();
+      setActiveTags([]);
+      if (notebookId && note?.notebookId !== notebookId) setNotebookId(null);
+      setShowArchive(note?.archivedAt !== undefined);
+    }
+    setScrollTargetId(id);
+  };
+
+  useEffect(() => {
+    if (!scrollTargetId) return;
+    const element = document.getElementById(`note-${scrollTargetId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTargetId(null);
+  }, [scrollTargetId, visibleNotes]);
+
+  // Load voice settings from local storage
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(VOICE_SETTINGS_KEY) || '{}');
+      if (isTranscriptionLanguage(saved.language)) setLanguage(saved.language);
+      if (typeof saved.translate === 'boolean') setTranslate(saved.translate);
+      if (saved.recordMode === 'hold' || saved.recordMode === 'toggle') setRecordMode(saved.recordMode);
+    } catch (e) {
+      console.error('Failed to parse voice settings', e);
+    }
+  }, []);
+
+  const updateVoiceSettings = (next: { language?: TranscriptionLanguage; translate?: boolean; recordMode?: RecordMode }) => {
+    const settings = { language, translate, recordMode, ...next };
+    setLanguage(settings.language);
+    setTranslate(settings.translate);
+    setRecordMode(settings.recordMode);
+    localStorage.setItem(VOICE_SETTINGS_KEY, JSON.stringify(settings));
+  };
+
+  const addNote = (content?: string, details?: VoiceNoteDetails) => {
     const finalContent = content || newNoteContent;
     if (!finalContent.trim()) return;
 
-    const newNote: Note = {
-      id: crypto.randomUUID(),
-      content: finalContent,
-      createdAt: Date.now(),
-    };
-
-    setNotes((prev) => [newNote, ...prev]);
+    // Only voice recordings come with details.
+    createNote(finalContent, { ...details, notebookId: notebookId ?? undefined }, details ? 'voice' : 'typed');
     setNewNoteContent('');
     setIsAdding(false);
   };
 
-  const deleteNote = (id: string) => {
-    setNotes(notes.filter((note) => note.id !== id));
-  };
-
   const startEditing = (note: Note) => {
     setEditingId(note.id);
     setEditContent(note.content);
@@ -90,123 +358,500 @@ export default function NoteApp() {
 
   const saveEdit = () => {
     if (!editingId) return;
-    setNotes(notes.map((note) => (note.id === editingId ? { ...note, content: editContent } : note)));
+    if (editContent.trim()) updateNote(editingId, { content: editContent });
     setEditingId(null);
   };
 
+  // --- Import / Export ---
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]));
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const selectedNotes = () => notes.filter((note) => selectedIds.includes(note.id));
+
+  // `value` is a notebook id, or '' for none.
+  const moveSelected = (value: string) => {
+    for (const note of selectedNotes()) updateNote(note.id, { notebookId: value || null });
+    const name = notebooks.notebooks.find((notebook) => notebook.id === value)?.name;
+    setTransferMessage(`Moved ${selectedIds.length} to ${name ?? 'no notebook'}`);
+    stopSelecting();
+  };
+
+  const archiveSelected = () => {
+    const chosen = selectedNotes();
+    archiveNotes(chosen, !showArchive, `${showArchive ? 'Unarchived' : 'Archived'} ${chosen.length} ${chosen.length === 1 ? 'note' : 'notes'}`);
+    stopSelecting();
+  };
+
+  const trashSelected = () => {
+    const chosen = selectedNotes();
+    trashNotes(chosen, `Moved ${chosen.length} ${chosen.length === 1 ? 'note' : 'notes'} to trash`);
+    stopSelecting();
+  };
+
+  const exportNotes = (format: 'json' | 'markdown' | 'ics') => {
+    // With a selection only those notes are exported, otherwise everything.
+    const selected = selectedIds.length > 0 ? notes.filter((note) => selectedIds.includes(note.id)) : notes;
+    // A calendar only has room for notes that are due.
+    const chosen = format === 'ics' ? byDueDate(selected) : selected;
+    if (chosen.length === 0) {
+      if (format === 'ics') setTransferMessage('No due dates to export');
+      return;
+    }
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(exportJson(chosen), `notes-${stamp}.json`, 'application/json');
+    } else if (format === 'markdown') {
+      downloadFile(exportMarkdownZip(chosen), `notes-${stamp}.zip`, 'application/zip');
+    } else {
+      downloadFile(exportIcs(chosen), `notes-${stamp}.ics`, 'text/calendar');
+    }
+    setTransferMessage(`Exported ${chosen.length} ${chosen.length === 1 ? 'note' : 'notes'}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const imported: Note[] = [];
+      let invalid = 0;
+      for (const file of files) {
+        const result = readImport(file.name, new Uint8Array(await file.arrayBuffer()));
+        imported.push(...result.notes);
+        invalid += result.invalid;
+      }
+      // Notebooks aren't exported; notes from one that isn't here come in unfiled.
+      const known = new Set(notebooks.notebooks.map((notebook) => notebook.id));
+      const added = importNotes(
+        imported.map(({ notebookId, ...note }) => (notebookId && known.has(notebookId) ? { ...note, notebookId } : note)),
+      );
+      const parts = [`Imported ${added} ${added === 1 ? 'note' : 'notes'}`];
+      if (imported.length > added) parts.push(`${imported.length - added} already here`);
+      if (invalid > 0) parts.push(`${invalid} invalid`);
+      setTransferMessage(parts.join(' • '));
+    } catch (err) {
+      console.error('Import error:', err);
+      setTransferMessage(err instanceof ImportError ? err.message : 'Import failed');
+    }
+  };
+
   // --- Voice Logic ---
-  const startRecording = async (e: React.MouseEvent | React.TouchEvent | React.PointerEvent) => {
-    e.preventDefault();
-    setIsRecording(true);
-    setVoiceError(null);
-    setRecordingTime(0);
-    
-    const now = Date.now();
-    startTimeRef.current = now;
+  // Shows `message` in the voice panel, clearing it after `clearAfterMs` when given.
+  const showVoiceError = (message: string | null, clearAfterMs?: number) => {
+    dispatchVoice({ type: 'error', message });
+    if (clearAfterMs) setTimeout(() => dispatchVoice({ type: 'error', message: null }), clearAfterMs);
+  };
+
+  const startRecording = async (e?: React.SyntheticEvent) => {
+    e?.preventDefault();
+    if (isProcessing) return;
+    dispatchVoice({ type: 'start' });
+    finishingRef.current = false;
+    recorderRef.current = null;
+
+    const startedAt = Date.now();
+    startTimeRef.current = startedAt;
 
     if ('vibrate' in navigator) navigator.vibrate(40);
 
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      setVoiceError("Microphone not supported. (Are you on HTTPS?)");
-      setIsRecording(false);
+      dispatchVoice({ type: 'mic-failed', message: "Microphone not supported. (Are you on HTTPS?)" });
+      finishingRef.current = true;
       return;
     }
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/mp4';
-      mimeTypeRef.current = mimeType;
 
-      const mediaRecorder = new MediaRecorder(stream, { mimeType });
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) audioChunksRef.current.push(event.data);
-      };
-
-      mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: mimeTypeRef.current });
-        await handleTranscription(audioBlob);
+      // Released before the microphone was ready.
+      if (finishingRef.current) {
         stream.getTracks().forEach(track => track.stop());
-      };
-
-      mediaRecorder.start();
+        return;
+      }
       
-      timerRef.current = setInterval(() => {
-        setRecordingTime(prev => {
-          if (prev >= 29) {
-            stopRecording();
-            return 30;
-          }
-          return prev + 1;
+      const mimeType = MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/mp4';
+      const sessionId = crypto.randomUUID();
+      const recorder = new SegmentedRecorder(stream, mimeType, (blob, { sequence, final, durationMs }) => {
+        queueSegment(blob, {
+          sessionId,
+          sequence,
+          final,
+          segmentMs: durationMs,
+          recording: final ? recorder.whole : undefined,
+          durationMs: final ? Date.now() - startedAt : undefined,
         });
+      });
+      recorderRef.current = recorder;
+      recorder.start();
+      // Hands-free takes end themselves once the speaker goes quiet.
+      voiceActivity.start(stream, recordMode === 'toggle' ? stopRecording : undefined);
+      
+      timerRef.current = setInterval(() => {
+        const elapsed = Math.floor((Date.now() - startedAt) / 1000);
+        dispatchVoice({ type: 'tick', elapsedSeconds: elapsed });
+        if (elapsed >= MAX_RECORDING_SECONDS) {
+          stopRecording();
+        } else if (elapsed % SEGMENT_SECONDS === 0) {
+          recorder.rotate();
+        }
       }, 1000);
 
     } catch (err: unknown) {
       console.error("Mic error:", err);
-      setVoiceError("Permission denied.");
-      setIsRecording(false);
+      dispatchVoice({ type: 'mic-failed', message: "Permission denied." });
+      finishingRef.current = true;
     }
   };
 
   const stopRecording = () => {
-    if (!isRecording) return;
+    if (finishingRef.current) return;
+    finishingRef.current = true;
     
     const duration = Date.now() - startTimeRef.current;
 
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-      mediaRecorderRef.current.stop();
-    }
+    recorderRef.current?.stop();
+    voiceActivity.stop();
     
-    setIsRecording(false);
+    dispatchVoice({ type: 'stop' });
     if (timerRef.current) clearInterval(timerRef.current);
     
     if ('vibrate' in navigator) navigator.vibrate([40, 30, 40]);
 
-    if (duration < 300) {
-      setVoiceError("Hold longer to record");
-      setTimeout(() => setVoiceError(null), 2000);
+    if (duration < 300) showVoiceError("Hold longer to record", 2000);
+  };
+
+  const toggleRecording = (e?: React.SyntheticEvent) => {
+    if (finishingRef.current) startRecording(e);
+    else stopRecording();
+  };
+
+  // Space records from anywhere but a text field: held down in hold mode,
+  // tapped in hands-free mode. The ref keeps the listener on the latest handlers.
+  const shortcutRef = useRef({ startRecording, stopRecording, toggleRecording, recordMode, busy: isProcessing });
+  useEffect(() => {
+    shortcutRef.current = { startRecording, stopRecording, toggleRecording, recordMode, busy: isProcessing };
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || e.altKey || e.ctrlKey || e.metaKey || isTyping(e.target)) return;
+      const shortcut = shortcutRef.current;
+      if (shortcut.busy) return;
+      e.preventDefault();
+      if (shortcut.recordMode === 'toggle') shortcut.toggleRecording();
+      else shortcut.startRecording();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || shortcutRef.current.recordMode !== 'hold' || isTyping(e.target)) return;
+      e.preventDefault();
+      shortcutRef.current.stopRecording();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
+  // Segments upload one at a time, in order, so the final response carries
+  // the fully stitched transcript.
+  const queueSegment = (blob: Blob, upload: SegmentUpload) => {
+    if (upload.final) dispatchVoice({ type: 'process' });
+    uploadChainRef.current = uploadChainRef.current.then(() => handleTranscription(blob, upload));
+  };
+
+  const storeRecording = async (blob: Blob, durationMs: number): Promise<AudioAttachment | undefined> => {
+    const attachment: AudioAttachment = { id: crypto.randomUUID(), mimeType: blob.type, durationMs, size: blob.size };
+    try {
+      await saveAudio(attachment.id, blob);
+      return attachment;
+    } catch (err) {
+      console.error("Failed to keep recording:", err);
+      return undefined;
     }
   };
 
-  const handleTranscription = async (blob: Blob) => {
-    if (blob.size < 1000) return;
+  // Keeps a recording whose transcription failed (or came back with gaps) to
+  // be retried from the pending queue. False if it couldn't be kept.
+  const queueRecording = async (blob: Blob, durationMs: number, error?: unknown): Promise<boolean> => {
+    const attachment = await storeRecording(blob, durationMs);
+    if (!attachment) return false;
+    await enqueueRecording({ attachment, language, translate }, error);
+    return true;
+  };
 
-    setIsProcessing(true);
+  const handleTranscription = async (
+    blob: Blob,
+    { sessionId, sequence, final, segmentMs, recording, durationMs }: SegmentUpload,
+  ) => {
+    try {
+      // Silence before the first words and after the last is cut off before
+      // upload; segments with nothing said before them aren't sent at all.
+      if (sequence === 0) speechHeardRef.current = false;
+      let audio: Blob | null = blob.size >= 1000 ? blob : null;
+      let audioMs = segmentMs;
+      if (audio && (!speechHeardRef.current || final)) {
+        const trimmed = await trimSilence(audio, segmentMs, { leading: !speechHeardRef.current, trailing: final });
+        audio = trimmed?.blob ?? null;
+        audioMs = trimmed?.durationMs ?? 0;
+      }
+      if (audio) speechHeardRef.current = true;
+
+      if (!audio && !final) return;
+      if (!audio && !speechHeardRef.current) {
+        // No segment went up, so there's no session to finish.
+        if (blob.size >= 1000 || sequence > 0) {
+          showVoiceError("No speech detected", 3000);
+        }
+        return;
+      }
+
+      const formData = new FormData();
+      if (audio) {
+        formData.append('file', audio, audioFilename(audio));
+        formData.append('durationMs', String(audioMs));
+      }
+      formData.append('sessionId', sessionId);
+      formData.append('sequence', String(sequence));
+      formData.append('final', String(final));
+      formData.append('language', language);
+      formData.append('translate', String(translate));
+
+      const data = await requestTranscription(formData);
+
+      const text = data.text?.trim();
+      const translation = data.translation?.trim();
+
+      if (!final) {
+        dispatchVoice({ type: 'transcript', text: text || '' });
+      } else if (failedSessionsRef.current.delete(sessionId) && recording) {
+        await queueRecording(await recording, durationMs ?? 0);
+      } else if (text) {
+        const command = parseVoiceCommand(translation || text);
+        if (command) {
+          applyVoiceCommand(command);
+          return;
+        }
+
+        const attachment = recording ? await storeRecording(await recording, durationMs ?? 0) : undefined;
+        // A translated note keeps what was actually said alongside.
+        addNote(translation || text, { language: data.language, originalText: translation ? text : undefined, attachment });
+      } else {
+        showVoiceError("Couldn't hear clearly", 3000);
+      }
+    } catch (err) {
+      console.error("Transcription error:", err);
+      if (!final) {
+        failedSessionsRef.current.add(sessionId);
+        return;
+      }
+      failedSessionsRef.current.delete(sessionId);
+      const queued = recording ? await queueRecording(await recording, durationMs ?? 0, err) : false;
+      showVoiceError(queued ? queuedMessage(err) : "Processing failed");
+    } finally {
+      if (final) dispatchVoice({ type: 'done' });
+    }
+  };
 
+  // Transcribes an audio file picked from disk into a new note, keeping the
+  // file as the note's recording.
+  const transcribeFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || isRecording || isProcessing) return;
+
+    showVoiceError(null);
+    dispatchVoice({ type: 'process' });
+    const durationMs = await readAudioDuration(file);
     try {
       const formData = new FormData();
-      formData.append('file', blob, 'audio.webm');
+      formData.append('file', file, file.name);
+      if (durationMs) formData.append('durationMs', String(durationMs));
+      formData.append('language', language);
+      formData.append('translate', String(translate));
+
+      const data = await requestTranscription(formData);
+      const text = data.text?.trim();
+      const translation = data.translation?.trim();
+      if (!text) {
+        showVoiceError("Couldn't hear clearly");
+        return;
+      }
 
-      const response = await fetch('/api/transcribe', {
+      const attachment = await storeRecording(file, durationMs ?? 0);
+      addNote(translation || text, { language: data.language, originalText: translation ? text : undefined, attachment });
+    } catch (err) {
+      console.error("File transcription error:", err);
+      // A file the server rejects would fail the same way from the queue.
+      if (isRetryable(err) && (await queueRecording(file, durationMs ?? 0, err))) {
+        showVoiceError(queuedMessage(err));
+      } else {
+        showVoiceError(err instanceof TranscriptionRequestError ? err.summary : 'Processing failed');
+      }
+    } finally {
+      dispatchVoice({ type: 'done' });
+    }
+  };
+
+  // --- Voice Commands ---
+  const showUndo = (action: UndoAction) => {
+    undoActionRef.current = action;
+    setUndoAction(action);
+  };
+
+  const finishUndo = useCallback((undone: boolean) => {
+    const action = undoActionRef.current;
+    if (!action) return;
+    if (undone) action.undo();
+    undoActionRef.current = null;
+    setUndoAction(null);
+  }, []);
+
+  // Deleted notes go to the trash straight away; undo takes them back out.
+  const trashNotes = (chosen: Note[], message: string) => {
+    for (const note of chosen) deleteNote(note.id);
+    showUndo({
+      message,
+      undo: () => {
+        for (const note of chosen) restoreNote(note);
+      },
+    });
+  };
+
+  const archiveNotes = (chosen: Note[], archive: boolean, message: string) => {
+    const archivedAt = Date.now();
+    for (const note of chosen) updateNote(note.id, { archivedAt: archive ? archivedAt : null });
+    showUndo({
+      message,
+      undo: () => {
+        for (const note of chosen) updateNote(note.id, { archivedAt: note.archivedAt ?? null });
+      },
+    });
+  };
+
+  // Saves where a dragged note was dropped: between its new neighbours, among
+  // notes pinned the same way, since pinned notes are always listed first.
+  const dropNote = (id: string) => {
+    const order = dragOrder;
+    setDragOrder(null);
+    const note = visibleNotes.find((n) => n.id === id);
+    if (!order || !note) return;
+    const peers = order.flatMap((peerId) => {
+      const peer = visibleNotes.find((n) => n.id === peerId);
+      return peer && Boolean(peer.pinned) === Boolean(note.pinned) ? [peer] : [];
+    });
+    const index = peers.indexOf(note);
+    const before = peers[index - 1];
+    const after = peers[index + 1];
+    const current = visibleNotes.filter((n) => Boolean(n.pinned) === Boolean(note.pinned));
+    const currentIndex = current.indexOf(note);
+    if (current[currentIndex - 1] === before && current[currentIndex + 1] === after) return;
+    updateNote(id, { position: positionBetween(before, after) });
+  };
+
+  const applyVoiceCommand = (command: VoiceCommand) => {
+    const note = resolveTarget(command.target, notesRef.current);
+    if (!note) {
+      showVoiceError(command.target.kind === 'about' ? `No note about "${command.target.topic}"` : 'No note to change', 3000);
+      return;
+    }
+
+    if (command.type === 'delete') {
+      trashNotes([note], `Deleted "${describeNote(note)}"`);
+      return;
+    }
+
+    const { content, message } = commandEdit(command, note);
+    updateNote(note.id, { content }, 'voice');
+    showUndo({ message, undo: () => updateNote(note.id, { content: note.content }, 'restore') });
+  };
+
+
+  // Sends a note's stored recording through transcription again, with the
+  // note's own language and translation mode.
+  const retranscribe = async (note: Note) => {
+    if (!note.attachment || retranscribingId) return;
+    setRetranscribingId(note.id);
+
+    try {
+      const blob = await loadAudio(note.attachment.id);
+      if (!blob) {
+        showVoiceError("Recording is not on this device");
+        return;
+      }
+
+      const formData = new FormData();
+      formData.append('file', blob, audioFilename(blob));
+      formData.append('durationMs', String(note.attachment.durationMs));
+      formData.append('language', isTranscriptionLanguage(note.language) ? note.language : 'auto');
+      formData.append('translate', String(Boolean(note.originalText)));
+
+      const data = await requestTranscription(formData);
+      const text = data.text?.trim();
+      const translation = data.translation?.trim();
+      if (!text) {
+        showVoiceError("Couldn't hear clearly");
+        return;
+      }
+
+      const patch: NotePatch = { content: translation || text };
+      if (data.language) patch.language = data.language;
+      if (translation) patch.originalText = text;
+      updateNote(note.id, patch, 'voice');
+    } catch (err) {
+      console.error("Re-transcription error:", err);
+      showVoiceError(err instanceof TranscriptionRequestError ? err.summary : "Processing failed");
+    } finally {
+      setRetranscribingId(null);
+    }
+  };
+
+  // --- AI Post-processing ---
+  const processNote = async (note: Note, action: ProcessingAction) => {
+    if (processingNoteId) return;
+    setProcessingNoteId(note.id);
+
+    try {
+      const response = await fetch('/api/process', {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, text: note.content }),
       });
-
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Transcription failed');
+        throw new Error(data.error || 'Processing failed');
       }
 
-      const text = data.text?.trim();
-
-      if (text) {
-        addNote(text);
+      const title = note.title ?? (data.title || undefined);
+      if (action === 'cleanup') {
+        // The first clean-up remembers the raw transcript for "revert".
+        updateNote(note.id, { content: data.content, title, rawContent: note.rawContent ?? note.content }, 'ai');
       } else {
-        setVoiceError("Couldn't hear clearly");
-        setTimeout(() => setVoiceError(null), 3000);
+        updateNote(note.id, { summary: data.summary, title });
       }
     } catch (err) {
-      console.error("Transcription error:", err);
-      setVoiceError("Processing failed");
+      console.error("Processing error:", err);
+      showVoiceError("AI processing failed");
     } finally {
-      setIsProcessing(false);
+      setProcessingNoteId(null);
     }
   };
 
+  const revertToRaw = (note: Note) => {
+    if (note.rawContent === undefined) return;
+    updateNote(note.id, { content: note.rawContent, rawContent: null }, 'restore');
+  };
+
   return (
     <main className="min-h-screen flex flex-col items-center p-4 md:p-8 pb-40">
       <div className="relative w-full max-w-2xl mt-12 mb-20">
@@ -241,7 +886,7 @@ export default function NoteApp() {
                   autoFocus
                   value={newNoteContent}
                   onChange={(e) => setNewNoteContent(e.target.value)}
-                  placeholder="Write something..."
+                  placeholder="Write something... (Markdown and - [ ] checklists work)"
                   className="w-full bg-transparent border-none outline-none resize-none font-sans text-lg min-h-[100px]"
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' && e.metaKey) addNote();
@@ -259,69 +904,443 @@ export default function NoteApp() {
             )}
           </AnimatePresence>
 
+          <div className="flex flex-wrap items-center justify-end gap-2 mb-4 font-mono text-[10px] uppercase tracking-[0.2em] font-bold">
+            {transferMessage && (
+              <button onClick={() => setTransferMessage(null)} className="mr-auto opacity-60 uppercase" title="Dismiss">
+                {transferMessage}
+              </button>
+            )}
+            {selecting && <span className="opacity-60">{selectedIds.length} selected</span>}
+            {selecting && selectedIds.length > 0 && (
+              <>
+                <select
+                  value="none"
+                  onChange={(e) => moveSelected(e.target.value)}
+                  className="border-2 border-black bg-white px-2 py-1 uppercase tracking-[0.2em] outline-none"
+                  aria-label="Move selected notes to a notebook"
+                >
+                  <option value="none" disabled>Move to…</option>
+                  <option value="">No notebook</option>
+                  {notebooks.notebooks.map((notebook) => (
+                    <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={archiveSelected}
+                  className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-[#E6B3A3] transition-colors"
+                >
+                  {showArchive ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />} {showArchive ? 'Unarchive' : 'Archive'}
+                </button>
+                <button
+                  onClick={trashSelected}
+                  className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-red-500 hover:text-white transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" /> Delete
+                </button>
+              </>
+            )}
+            {notes.length > 0 && (
+              <button
+                onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+                className={`border-2 border-black px-2 py-1 transition-colors ${selecting ? 'bg-black text-white' : 'bg-white hover:bg-[#E6B3A3]'}`}
+              >
+                {selecting ? 'Done' : 'Select'}
+              </button>
+            )}
+            <button
+              onClick={() => exportNotes('json')}
+              disabled={notes.length === 0}
+              className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-[#E6B3A3] transition-colors disabled:opacity-40"
+              title={selectedIds.length > 0 ? 'Export selected notes as JSON' : 'Export all notes as JSON'}
+            >
+              <Download className="w-3 h-3" /> JSON
+            </button>
+            <button
+              onClick={() => exportNotes('markdown')}
+              disabled={notes.length === 0}
+              className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-[#E6B3A3] transition-colors disabled:opacity-40"
+              title={selectedIds.length > 0 ? 'Export selected notes as Markdown (ZIP)' : 'Export all notes as Markdown (ZIP)'}
+            >
+              <Download className="w-3 h-3" /> Markdown
+            </button>
+            <button
+              onClick={() => exportNotes('ics')}
+              disabled={dueCount === 0}
+              className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-[#E6B3A3] transition-colors disabled:opacity-40"
+              title="Export due dates and reminders as a calendar (.ics)"
+            >
+              <CalendarDays className="w-3 h-3" /> Calendar
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-[#E6B3A3] transition-colors"
+              title="Import notes from JSON, Markdown or ZIP"
+            >
+              <Upload className="w-3 h-3" /> Import
+            </button>
+            <button
+              onClick={() => setShowTrash(true)}
+              className="flex items-center gap-1 border-2 border-black bg-white px-2 py-1 hover:bg-[#E6B3A3] transition-colors"
+              title="Deleted notes"
+            >
+              <Trash2 className="w-3 h-3" /> Trash
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.md,.markdown,.txt,.zip"
+              multiple
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          {(notes.length > 0 || notebooks.notebooks.length > 0) && (
+            <NotebookTabs
+              notebooks={notebooks.notebooks}
+              activeId={notebookId}
+              archive={showArchive}
+              counts={notebookCounts}
+              error={notebooks.error}
+              onSelect={setNotebookId}
+              onToggleArchive={toggleArchive}
+              onCreate={async (name) => {
+                const created = await notebooks.create(name);
+                if (created) setNotebookId(created.id);
+                return created !== null;
+              }}
+              onRename={notebooks.rename}
+              onDelete={deleteNotebook}
+            />
+          )}
+
+          {notes.length > 0 && (
+            <div className="mb-8 space-y-3">
+              <div className="flex gap-2">
+                <form onSubmit={submitSearch} className="flex-1 flex items-center gap-2 border-2 border-black bg-[#F5F2ED] px-3 py-2">
+                  {askResults.asking ? (
+                    <Loader2 className="w-4 h-4 opacity-50 shrink-0 animate-spin" />
+                  ) : askMode ? (
+                    <Sparkles className="w-4 h-4 opacity-50 shrink-0" />
+                  ) : (
+                    <Search className="w-4 h-4 opacity-50 shrink-0" />
+                  )}
+                  <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder={askMode ? 'Ask your notes, then press Enter...' : 'Search notes...'}
+                    className="w-full bg-transparent outline-none font-sans"
+                  />
+                  {query && (
+                    <button type="button" onClick={clearSearch} title="Clear search">
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </form>
+                <button
+                  onClick={toggleAskMode}
+                  className={`flex items-center gap-1 border-2 border-black px-2 font-mono text-xs uppercase transition-colors ${
+                    askMode ? 'bg-black text-white' : 'bg-white hover:bg-[#E6B3A3]'
+                  }`}
+                  title="Search by meaning instead of words"
+                  aria-pressed={askMode}
+                >
+                  <Sparkles className="w-3 h-3" /> Ask
+                </button>
+                <button
+                  onClick={toggleUpcoming}
+                  className={`flex items-center gap-1 border-2 border-black px-2 font-mono text-xs uppercase transition-colors ${
+                    showUpcoming ? 'bg-black text-white' : 'bg-white hover:bg-[#E6B3A3]'
+                  }`}
+                  title="Notes with a due date, soonest first"
+                  aria-pressed={showUpcoming}
+                >
+                  <CalendarClock className="w-3 h-3" /> Upcoming{dueCount > 0 && <span className="opacity-50">{dueCount}</span>}
+                </button>
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as NoteSort)}
+                  disabled={showUpcoming || (askMode && askResults.matches !== null)}
+                  className="border-2 border-black bg-white px-2 font-mono text-xs uppercase outline-none disabled:opacity-40"
+                  aria-label="Sort notes"
+                >
+                  {NOTE_SORTS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              {askResults.error && (
+                <p className="font-mono text-xs font-bold uppercase text-red-600">{askResults.error}</p>
+              )}
+              {tagCounts.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {tagCounts.map(([tag, count]) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`font-mono text-xs border-2 border-black px-2 py-0.5 transition-colors ${
+                        activeTags.includes(tag) ? 'bg-black text-white' : 'bg-white hover:bg-[#E6B3A3]'
+                      }`}
+                    >
+                      #{tag} <span className="opacity-50">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-6">
-            {notes.length === 0 && !isAdding && (
+            {notes.length === 0 && pending.length === 0 && !isAdding && (
               <div className="flex flex-col items-center justify-center py-20 opacity-30 grayscale">
                 <p className="font-mono text-xl">No notes yet.</p>
                 <p className="text-sm mt-2">Click the + to start writing.</p>
               </div>
             )}
+            {notes.length > 0 && visibleNotes.length === 0 && (
+              <div className="flex flex-col items-center justify-center py-20 opacity-30 grayscale">
+                <p className="font-mono text-xl">
+                  {showUpcoming ? 'Nothing due.' : showArchive ? 'Nothing archived.' : 'No matching notes.'}
+                </p>
+              </div>
+            )}
             
-            <AnimatePresence mode="popLayout">
-              {notes.map((note) => (
-                <motion.div
-                  key={note.id}
-                  layout
-                  initial={{ opacity: 0, scale: 0.95 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.95 }}
-                  className="group relative border-b-2 border-black/10 pb-4 last:border-0"
-                >
-                  {editingId === note.id ? (
-                    <div className="space-y-2">
-                      <textarea
-                        autoFocus
-                        value={editContent}
-                        onChange={(e) => setEditContent(e.target.value)}
-                        className="w-full bg-[#F5F2ED] border-2 border-black p-2 outline-none resize-none font-sans text-lg min-h-[80px]"
-                      />
-                      <div className="flex justify-end gap-2">
-                        <button onClick={() => setEditingId(null)} className="p-1 border border-black hover:bg-gray-200">
-                          <X className="w-4 h-4" />
-                        </button>
-                        <button onClick={saveEdit} className="p-1 border border-black bg-black text-white">
-                          <Check className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </div>
-                  ) : (
-                    <>
-                      <p className="text-lg leading-relaxed whitespace-pre-wrap font-sans">
-                        {note.content}
-                      </p>
-                      <div className="flex justify-between items-center mt-2">
-                        <span className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
-                          {new Date(note.createdAt).toLocaleDateString()} • {new Date(note.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                        </span>
-                        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <button onClick={() => startEditing(note)} className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all">
-                            <Edit2 className="w-4 h-4" />
+            <AnimatePresence>
+              {pending.map((recording) => (
+                <PendingNote
+                  key={recording.id}
+                  recording={recording}
+                  active={activeId === recording.id}
+                  onRetry={() => retryRecording(recording.id)}
+                  onDiscard={() => discardRecording(recording.id)}
+                />
+              ))}
+            </AnimatePresence>
+
+            <Reorder.Group
+              as="div"
+              axis="y"
+              values={listedNotes.map((note) => note.id)}
+              onReorder={setDragOrder}
+              className="space-y-6"
+            >
+              <AnimatePresence mode="popLayout">
+                {listedNotes.map((note) => (
+                  <SortableNote
+                    key={note.id}
+                    id={note.id}
+                    sortable={canReorder && editingId !== note.id}
+                    onDragEnd={() => dropNote(note.id)}
+                    className="group relative border-b-2 border-black/10 pb-4 last:border-0"
+                  >
+                    {editingId === note.id ? (
+                      <div className="space-y-2">
+                        <textarea
+                          autoFocus
+                          value={editContent}
+                          onChange={(e) => setEditContent(e.target.value)}
+                          className="w-full bg-[#F5F2ED] border-2 border-black p-2 outline-none resize-none font-sans text-lg min-h-[80px]"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button onClick={() => setEditingId(null)} className="p-1 border border-black hover:bg-gray-200">
+                            <X className="w-4 h-4" />
                           </button>
-                          <button onClick={() => deleteNote(note.id)} className="p-1 hover:bg-red-500 hover:text-white border border-transparent hover:border-black transition-all">
-                            <Trash2 className="w-4 h-4" />
+                          <button onClick={saveEdit} className="p-1 border border-black bg-black text-white">
+                            <Check className="w-4 h-4" />
                           </button>
                         </div>
                       </div>
-                    </>
-                  )}
-                </motion.div>
-              ))}
-            </AnimatePresence>
+                    ) : (
+                      <>
+                        {note.title && (
+                          <h2 className="font-mono font-bold uppercase tracking-wide mb-1">
+                            <Highlight text={note.title} pattern={highlight} />
+                          </h2>
+                        )}
+                        <NoteContent
+                          content={note.content}
+                          highlight={highlight}
+                          onToggleTask={(line) => updateNote(note.id, { content: toggleTask(note.content, line) })}
+                        />
+                        {note.summary && (
+                          <div className="mt-3 border-l-4 border-[#E6B3A3] pl-3 relative">
+                            <div className="flex items-center justify-between">
+                              <span className="font-mono text-[10px] uppercase tracking-widest opacity-50">Summary</span>
+                              <button onClick={() => updateNote(note.id, { summary: null })} className="opacity-40 hover:opacity-100" title="Remove summary">
+                                <X className="w-3 h-3" />
+                              </button>
+                            </div>
+                            <ul className="list-disc pl-5 text-sm space-y-0.5">
+                              {note.summary.map((point, i) => <li key={i}>{point}</li>)}
+                            </ul>
+                          </div>
+                        )}
+                        {note.originalText && (
+                          <details className="mt-2 text-sm">
+                            <summary className="font-mono text-[10px] uppercase tracking-widest opacity-50 cursor-pointer">
+                              Original transcript
+                            </summary>
+                            <p className="mt-1 whitespace-pre-wrap opacity-70">{note.originalText}</p>
+                          </details>
+                        )}
+                        <DueSuggestion
+                          due={reminders.suggestions.get(note.id)}
+                          now={reminders.now}
+                          onConfirm={(due) => reminders.confirmDue(note, due)}
+                          onDismiss={(due) => reminders.dismissDue(note, due)}
+                        />
+                        {note.attachment && <AudioPlayer attachment={note.attachment} />}
+                        <RelatedNotes note={note} notes={notes} onOpen={showNote} />
+                        <div className="flex justify-between items-center mt-2">
+                          <div className="flex items-center gap-2">
+                            {selecting && (
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.includes(note.id)}
+                                onChange={() => toggleSelected(note.id)}
+                                className="accent-black"
+                                aria-label="Select note"
+                              />
+                            )}
+                            {note.pinned && <Pin className="w-3 h-3" aria-label="Pinned" />}
+                            <span className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
+                              {new Date(note.createdAt).toLocaleDateString()} • {new Date(note.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                            <TaskCount content={note.content} />
+                            {!notebookId && note.notebookId && (
+                              <button
+                                onClick={() => setNotebookId(note.notebookId!)}
+                                className="text-[10px] font-mono uppercase tracking-tighter border border-black/40 px-1 opacity-60 hover:opacity-100"
+                                title="Open notebook"
+                              >
+                                {notebooks.notebooks.find((notebook) => notebook.id === note.notebookId)?.name ?? 'Notebook'}
+                              </button>
+                            )}
+                            <DueBadge
+                              note={note}
+                              now={reminders.now}
+                              notificationsBlocked={reminders.permission === 'denied'}
+                              onToggleReminder={() => reminders.setReminder(note, note.remindAt === undefined)}
+                              onClear={() => reminders.clearDue(note)}
+                            />
+                            {note.language && (
+                              <span className="text-[10px] font-mono uppercase tracking-tighter border border-black/40 px-1 opacity-60">
+                                {languageLabel(note.language)}
+                              </span>
+                            )}
+                            {note.conflictOf && (
+                              <span className="text-[10px] font-mono font-bold uppercase tracking-tighter bg-[#E6B3A3] border border-black px-1" title="Edited on two devices at once; this is the version that lost">
+                                Conflict copy
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            {processingNoteId === note.id ? (
+                              <Loader2 className="w-4 h-4 m-1 animate-spin" />
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => processNote(note, 'cleanup')}
+                                  disabled={processingNoteId !== null}
+                                  className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all disabled:opacity-40"
+                                  title="Clean up"
+                                >
+                                  <Wand2 className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => processNote(note, 'summarize')}
+                                  disabled={processingNoteId !== null}
+                                  className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all disabled:opacity-40"
+                                  title="Summarize"
+                                >
+                                  <ListChecks className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                            {note.rawContent !== undefined && note.rawContent !== note.content && (
+                              <button
+                                onClick={() => revertToRaw(note)}
+                                className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all"
+                                title="Revert to raw transcript"
+                              >
+                                <Undo2 className="w-4 h-4" />
+                              </button>
+                            )}
+                            {note.attachment && (
+                              <button
+                                onClick={() => retranscribe(note)}
+                                disabled={retranscribingId !== null}
+                                className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all disabled:opacity-40"
+                                title="Re-transcribe recording"
+                              >
+                                {retranscribingId === note.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                              </button>
+                            )}
+                            <button onClick={() => startEditing(note)} className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all">
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => updateNote(note.id, { pinned: note.pinned ? null : true })}
+                              className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all"
+                              title={note.pinned ? 'Unpin' : 'Pin to top'}
+                            >
+                              {note.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() =>
+                                archiveNotes([note], note.archivedAt === undefined, `${note.archivedAt === undefined ? 'Archived' : 'Unarchived'} "${describeNote(note)}"`)
+                              }
+                              className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all"
+                              title={note.archivedAt === undefined ? 'Archive' : 'Unarchive'}
+                            >
+                              {note.archivedAt === undefined ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => setHistoryNoteId(note.id)}
+                              className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all"
+                              title="History"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => trashNotes([note], `Moved "${describeNote(note)}" to trash`)}
+                              className="p-1 hover:bg-red-500 hover:text-white border border-transparent hover:border-black transition-all"
+                              title="Move to trash"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </SortableNote>
+                ))}
+              </AnimatePresence>
+            </Reorder.Group>
           </div>
         </div>
       </div>
 
+      <AnimatePresence>
+        {historyNote && (
+          <NoteHistory
+            key="history"
+            note={historyNote}
+            onRestore={(revision) => {
+              updateNote(historyNote.id, { content: revision.content }, 'restore');
+              setHistoryNoteId(null);
+            }}
+            onClose={() => setHistoryNoteId(null)}
+          />
+        )}
+        {showTrash && <TrashPanel key="trash" onRestored={refresh} onClose={() => setShowTrash(false)} />}
+      </AnimatePresence>
+
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 flex flex-col items-center gap-6 z-50 w-full max-w-md px-4">
+        <AnimatePresence>
+          {undoAction && <UndoToast key={undoAction.message} action={undoAction} onDone={finishUndo} />}
+        </AnimatePresence>
+
         <AnimatePresence>
           {(isRecording || isProcessing || voiceError) && (
             <motion.div
@@ -337,12 +1356,21 @@ export default function NoteApp() {
                       <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
                       <span className="font-mono text-sm font-bold tracking-widest">बोलिए... / SPEAKING...</span>
                     </div>
-                    <span className="font-mono text-lg font-bold text-[#E6B3A3]">{recordingTime}s</span>
+                    <span className="font-mono text-lg font-bold text-[#E6B3A3]">{formatDuration(voice.elapsedSeconds)}</span>
                   </div>
-                  <VoiceWaveform />
-                  <p className="text-[10px] font-mono opacity-50 uppercase tracking-[0.2em]">Auto-detecting Hindi/English</p>
+                  <VoiceWaveform levels={voiceActivity.levels} speaking={voiceActivity.speaking} />
+                  <p className="text-[10px] font-mono opacity-50 uppercase tracking-[0.2em]">
+                    {language === 'auto' ? 'Auto-detecting language' : `Listening in ${languageLabel(language)}`}
+                    {translate && ' • Translating to English'}
+                    {recordMode === 'toggle' && ' • Stops when you go quiet'}
+                  </p>
                 </>
               )}
+              {(isRecording || isProcessing) && voice.liveTranscript && (
+                <p className="w-full max-h-24 overflow-y-auto text-sm leading-snug opacity-80">
+                  {voice.liveTranscript}
+                </p>
+              )}
               {isProcessing && (
                 <div className="flex items-center gap-4 py-2">
                   <Loader2 className="w-6 h-6 animate-spin text-[#E6B3A3]" />
@@ -352,7 +1380,7 @@ export default function NoteApp() {
               {voiceError && (
                 <div className="flex items-center justify-between w-full py-2">
                   <span className="font-mono text-sm text-red-400 font-bold uppercase">{voiceError}</span>
-                  <button onClick={() => setVoiceError(null)} className="text-[10px] font-mono border border-white/20 px-2 py-1 rounded hover:bg-white/10">
+                  <button onClick={() => showVoiceError(null)} className="text-[10px] font-mono border border-white/20 px-2 py-1 rounded hover:bg-white/10">
                     DISMISS
                   </button>
                 </div>
@@ -375,9 +1403,9 @@ export default function NoteApp() {
 
           {/* FIX: Added touchAction and onContextMenu to fix mobile hold-to-record bugs */}
           <motion.button
-            onPointerDown={startRecording}
-            onPointerUp={stopRecording}
-            onPointerLeave={stopRecording}
+            onPointerDown={recordMode === 'hold' ? startRecording : toggleRecording}
+            onPointerUp={recordMode === 'hold' ? stopRecording : undefined}
+            onPointerLeave={recordMode === 'hold' ? stopRecording : undefined}
             onContextMenu={(e) => e.preventDefault()}
             style={{ touchAction: 'none' }}
             whileTap={{ scale: 0.9 }}
@@ -398,14 +1426,79 @@ export default function NoteApp() {
         </div>
         
         <p className="font-mono text-[10px] uppercase tracking-[0.3em] opacity-40 font-bold select-none">
-          {isRecording ? 'Release to finish' : 'Hold to speak'}
+          {recordMode === 'hold'
+            ? (isRecording ? 'Release to finish' : 'Hold to speak')
+            : (isRecording ? 'Tap to finish' : 'Tap to speak')}
+          <span className="hidden md:inline"> • Space</span>
         </p>
+
+        <div className="flex items-center gap-3 font-mono text-[10px] uppercase tracking-[0.2em] font-bold">
+          <select
+            value={language}
+            onChange={(e) => updateVoiceSettings({ language: e.target.value as TranscriptionLanguage })}
+            disabled={isRecording || isProcessing}
+            className="bg-white border-2 border-black px-2 py-1 uppercase tracking-[0.2em] shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] outline-none"
+            aria-label="Spoken language"
+          >
+            {TRANSCRIPTION_LANGUAGES.map((option) => (
+              <option key={option.code} value={option.code}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={translate}
+              onChange={(e) => updateVoiceSettings({ translate: e.target.checked })}
+              disabled={isRecording || isProcessing}
+              className="accent-black"
+            />
+            Translate to English
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer select-none" title="Tap once to record; stops by itself after a pause">
+            <input
+              type="checkbox"
+              checked={recordMode === 'toggle'}
+              onChange={(e) => updateVoiceSettings({ recordMode: e.target.checked ? 'toggle' : 'hold' })}
+              disabled={isRecording || isProcessing}
+              className="accent-black"
+            />
+            Hands-free
+          </label>
+          <label
+            className={`flex items-center gap-1.5 select-none border-2 border-black bg-white px-2 py-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+              isRecording || isProcessing ? 'opacity-40' : 'cursor-pointer hover:bg-[#E6B3A3]'
+            }`}
+            title="Transcribe an audio file (WebM, MP4/M4A, Ogg, WAV or MP3)"
+          >
+            <FileAudio className="w-3 h-3" /> File
+            <input
+              type="file"
+              accept="audio/*,.webm,.mp4,.m4a,.ogg,.oga,.opus,.wav,.mp3"
+              onChange={transcribeFile}
+              disabled={isRecording || isProcessing}
+              className="hidden"
+            />
+          </label>
+        </div>
       </div>
 
       <footer className="mt-auto py-8 text-center">
         <p className="font-mono text-[10px] uppercase tracking-[0.2em] opacity-50">
           Simple Brutalist Notes • {new Date().getFullYear()}
         </p>
+        {user && (
+          <p className="font-mono text-[10px] uppercase tracking-[0.2em] opacity-50 mt-1">
+            {user.email} •{' '}
+            <button onClick={signOut} className="uppercase underline hover:opacity-100">
+              Sign out
+            </button>
+          </p>
+        )}
+        {pendingCount > 0 && (
+          <p className="font-mono text-[10px] uppercase tracking-[0.2em] opacity-50 mt-1">
+            {pendingCount} unsynced {pendingCount === 1 ? 'change' : 'changes'}
+          </p>
+        )}
       </footer>
     </main>
   );
@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Pause, Play } from 'lucide-react';
+import { loadAudio } from '@/lib/audio-store';
+import type { AudioAttachment } from '@/lib/notes/types';
+import { formatDuration } from '@/lib/utils';
+
+// The recording is only read from IndexedDB on first play, so long lists
+// don't pull every blob into memory.
+export function AudioPlayer({ attachment }: { attachment: AudioAttachment }) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'playing' | 'paused' | 'missing'>('idle');
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  const toggle = async () => {
+    if (status === 'playing') {
+      audioRef.current?.pause();
+      return;
+    }
+
+    if (!audioRef.current) {
+      setStatus('loading');
+      const blob = await loadAudio(attachment.id).catch(() => undefined);
+      if (!blob) {
+        setStatus('missing');
+        return;
+      }
+      urlRef.current = URL.createObjectURL(blob);
+      const audio = new Audio(urlRef.current);
+      audio.ontimeupdate = () => setPosition(audio.currentTime);
+      audio.onplay = () => setStatus('playing');
+      audio.onpause = () => setStatus('paused');
+      audio.onended = () => {
+        setStatus('paused');
+        setPosition(0);
+      };
+      audioRef.current = audio;
+    }
+    await audioRef.current.play();
+  };
+
+  const duration = attachment.durationMs / 1000;
+  // MediaRecorder webm files report no duration, so progress uses the recorded one.
+  const progress = duration > 0 ? Math.min(position / duration, 1) : 0;
+
+  if (status === 'missing') {
+    return (
+      <p className="mt-2 font-mono text-[10px] uppercase tracking-widest opacity-50">
+        Recording is only stored on the device that made it
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex items-center gap-3">
+      <button
+        onClick={toggle}
+        className="p-1.5 border-2 border-black bg-[#E6B3A3] shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-0.5 active:translate-y-0.5 transition-all"
+        title={status === 'playing' ? 'Pause recording' : 'Play recording'}
+      >
+        {status === 'loading' ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : status === 'playing' ? (
+          <Pause className="w-4 h-4" />
+        ) : (
+          <Play className="w-4 h-4" />
+        )}
+      </button>
+      <div className="flex-1 h-2 border-2 border-black bg-white">
+        <div className="h-full bg-black" style={{ width: `${progress * 100}%` }} />
+      </div>
+      <span className="font-mono text-[10px] opacity-60 tabular-nums">
+        {formatDuration(position)} / {formatDuration(duration)}
+      </span>
+    </div>
+  );
+}
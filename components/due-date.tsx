@@ -0,0 +1,85 @@
+'use client';
+
+import React from 'react';
+import { Bell, BellOff, CalendarPlus, Check, X } from 'lucide-react';
+import { formatDue, type DueDate } from '@/lib/notes/due-date';
+import type { Note } from '@/lib/notes/types';
+
+// When a note is due, with its reminder bell. Overdue notes are marked in red.
+// Nothing for a note without a due date.
+export function DueBadge({
+  note,
+  now,
+  notificationsBlocked,
+  onToggleReminder,
+  onClear,
+}: {
+  note: Note;
+  now: number;
+  notificationsBlocked: boolean;
+  onToggleReminder: () => void;
+  onClear: () => void;
+}) {
+  if (note.dueAt === undefined) return null;
+  const overdue = note.dueAt <= now;
+  const reminding = note.remindAt !== undefined;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-mono uppercase tracking-tighter border px-1 ${
+        overdue ? 'border-red-600 text-red-600 font-bold' : 'border-black/40'
+      }`}
+    >
+      {overdue ? 'Overdue' : 'Due'} {formatDue(note.dueAt, now)}
+      {/* A reminder for a time that has passed would go off at once. */}
+      {(!overdue || reminding) && (
+        <button
+          onClick={onToggleReminder}
+          className="opacity-60 hover:opacity-100"
+          title={
+            reminding
+              ? notificationsBlocked
+                ? 'Reminder on, but notifications are blocked in this browser'
+                : 'Turn reminder off'
+              : 'Remind me'
+          }
+          aria-pressed={reminding}
+        >
+          {reminding ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+        </button>
+      )}
+      <button onClick={onClear} className="opacity-60 hover:opacity-100" title="Remove due date">
+        <X className="w-3 h-3" />
+      </button>
+    </span>
+  );
+}
+
+// A date read from the note's text, offered as a due date and reminder.
+export function DueSuggestion({
+  due,
+  now,
+  onConfirm,
+  onDismiss,
+}: {
+  due: DueDate | undefined;
+  now: number;
+  onConfirm: (due: DueDate) => void;
+  onDismiss: (due: DueDate) => void;
+}) {
+  if (!due) return null;
+  return (
+    <div className="mt-2 inline-flex items-center gap-2 border-2 border-black bg-[#F5F2ED] px-2 py-0.5 font-mono text-xs">
+      <CalendarPlus className="w-3 h-3 shrink-0" />
+      <span>
+        Remind me {formatDue(due.dueAt, now)}? <span className="opacity-50">&ldquo;{due.text}&rdquo;</span>
+      </span>
+      <button onClick={() => onConfirm(due)} className="p-0.5 border border-black bg-black text-white hover:bg-gray-800" title="Set due date and reminder">
+        <Check className="w-3 h-3" />
+      </button>
+      <button onClick={() => onDismiss(due)} className="p-0.5 border border-black hover:bg-gray-200" title="Dismiss">
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import React from 'react';
+
+// `pattern` must have exactly one capture group (see highlightPattern), so
+// split() puts the matches at the odd indices. The text is decomposed so
+// accented letters show as before but match their unaccented query.
+export function Highlight({ text, pattern }: { text: string; pattern: RegExp | null }) {
+  if (!pattern) return <>{text}</>;
+
+  return (
+    <>
+      {text.normalize('NFD').split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-[#E6B3A3] text-black">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { isValidElement, useMemo } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+import type { Element, ElementContent, Root, RootContent } from 'hast';
+import { isTaskChecked } from '@/lib/notes/checklist';
+
+// Wraps search matches in <mark> inside text nodes, leaving code untouched.
+function rehypeMark(pattern: RegExp | null) {
+  return () => (tree: Root) => {
+    if (!pattern) return;
+
+    const walk = (node: Root | Element) => {
+      const children: (RootContent | ElementContent)[] = [];
+      for (const child of node.children) {
+        if (child.type === 'element' && child.tagName !== 'code' && child.tagName !== 'pre') {
+          walk(child);
+          children.push(child);
+        } else if (child.type === 'text') {
+          child.value.split(pattern).forEach((part, i) => {
+            if (!part) return;
+            children.push(
+              i % 2 === 1
+                ? { type: 'element', tagName: 'mark', properties: { className: ['bg-[#E6B3A3]', 'text-black'] }, children: [{ type: 'text', value: part }] }
+                : { type: 'text', value: part }
+            );
+          });
+        } else {
+          children.push(child);
+        }
+      }
+      node.children = children as typeof node.children;
+    };
+    walk(tree);
+  };
+}
+
+interface NoteContentProps {
+  content: string;
+  highlight: RegExp | null;
+  /** Called with the 1-based source line of a task item whose box was clicked. */
+  onToggleTask: (line: number) => void;
+}
+
+/**
+ * Renders note content as Markdown (GFM, single newlines kept as breaks).
+ * Task list boxes are live: their state is read from the source line so a
+ * click can flip exactly that line in Note.content.
+ */
+export function NoteContent({ content, highlight, onToggleTask }: NoteContentProps) {
+  const rehypePlugins = useMemo(() => [rehypeMark(highlight)], [highlight]);
+
+  const components = useMemo<Components>(() => ({
+    a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+    li: ({ node, children, className, ...props }) => {
+      const line = node?.position?.start.line;
+      const checked = line === undefined ? undefined : isTaskChecked(content, line);
+      if (line === undefined || checked === undefined) {
+        return <li className={className} {...props}>{children}</li>;
+      }
+
+      // Drop the read-only checkbox remark-gfm renders and use our own.
+      const rest = React.Children.toArray(children).filter(
+        (child) => !(isValidElement(child) && child.type === 'input')
+      );
+      return (
+        <li className="list-none -ml-5 flex items-start gap-2" {...props}>
+          <input
+            type="checkbox"
+            checked={checked}
+            onChange={() => onToggleTask(line)}
+            className="mt-1.5 w-4 h-4 accent-black cursor-pointer shrink-0"
+          />
+          <span className={checked ? 'line-through opacity-50' : undefined}>{rest}</span>
+        </li>
+      );
+    },
+  }), [content, onToggleTask]);
+
+  return (
+    <div className="prose prose-lg max-w-none font-sans leading-relaxed prose-headings:font-mono prose-headings:uppercase prose-a:text-black prose-a:decoration-[#E6B3A3] prose-a:decoration-2 prose-code:before:content-none prose-code:after:content-none prose-code:bg-[#F5F2ED] prose-code:px-1 prose-pre:bg-black prose-pre:rounded-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1">
+      <ReactMarkdown remarkPlugins={[remarkGfm, remarkBreaks]} rehypePlugins={rehypePlugins} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { fetchHistory } from '@/lib/notes/client';
+import { diffText } from '@/lib/notes/diff';
+import type { Note, NoteRevision, RevisionSource } from '@/lib/notes/types';
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  typed: 'Typed',
+  voice: 'Voice',
+  ai: 'AI',
+  restore: 'Restored',
+};
+
+function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+      {diffText(before, after).map((part, i) =>
+        part.type === 'same' ? (
+          <span key={i}>{part.text}</span>
+        ) : part.type === 'added' ? (
+          <ins key={i} className="bg-[#E6B3A3] no-underline">{part.text}</ins>
+        ) : (
+          <del key={i} className="opacity-50">{part.text}</del>
+        ),
+      )}
+    </p>
+  );
+}
+
+// Past versions of a note, each shown as a diff against the one before it.
+// History lives on the server only, so it needs a connection.
+export function NoteHistory({
+  note,
+  onRestore,
+  onClose,
+}: {
+  note: Note;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}) {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchHistory(note.id)
+      .then((result) => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch((err) => {
+        console.error('Failed to load history:', err);
+        if (!cancelled) setError(err instanceof TypeError ? 'Offline' : 'Could not load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [note.id, note.revision]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-black/40 flex items-start justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-2xl mt-12 p-6"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-mono font-bold uppercase tracking-widest">History</h2>
+          <button onClick={onClose} className="p-1 border border-black hover:bg-gray-200" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error && <p className="font-mono text-xs font-bold uppercase text-red-600">{error}</p>}
+        {!revisions && !error && <Loader2 className="w-5 h-5 animate-spin mx-auto" />}
+        {revisions?.length === 0 && (
+          <p className="font-mono text-sm opacity-40 text-center py-8">No earlier versions yet.</p>
+        )}
+
+        <div className="space-y-4">
+          {revisions?.map((revision, i) => {
+            const previous = revisions[i + 1];
+            const current = revision.content === note.content;
+            return (
+              <div key={revision.revision} className="border-b-2 border-black/10 pb-3 last:border-0">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
+                      {new Date(revision.savedAt).toLocaleDateString()} •{' '}
+                      {new Date(revision.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    {revision.source && (
+                      <span className="text-[10px] font-mono uppercase tracking-tighter border border-black/40 px-1 opacity-60">
+                        {SOURCE_LABELS[revision.source]}
+                      </span>
+                    )}
+                    {current && (
+                      <span className="text-[10px] font-mono font-bold uppercase tracking-tighter bg-black text-white px-1">Current</span>
+                    )}
+                  </div>
+                  {!current && (
+                    <button
+                      onClick={() => onRestore(revision)}
+                      className="flex items-center gap-1 font-mono text-[10px] font-bold uppercase tracking-[0.2em] border-2 border-black px-2 py-1 bg-white hover:bg-[#E6B3A3] transition-colors"
+                    >
+                      <RotateCcw className="w-3 h-3" /> Restore
+                    </button>
+                  )}
+                </div>
+                {previous ? (
+                  <Diff before={previous.content} after={revision.content} />
+                ) : (
+                  <p className="whitespace-pre-wrap text-sm leading-relaxed">{revision.content}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Archive, Check, Edit2, FolderPlus, Trash2, X } from 'lucide-react';
+import type { Notebook } from '@/lib/notes/types';
+
+const tabClass = (active: boolean) =>
+  `border-2 border-black px-2 py-0.5 transition-colors ${active ? 'bg-black text-white' : 'bg-white hover:bg-[#E6B3A3]'}`;
+
+// All notes, one tab per notebook, and the archive. The open notebook can be
+// renamed or deleted; deleting one leaves its notes unfiled.
+export function NotebookTabs({
+  notebooks,
+  activeId,
+  archive,
+  counts,
+  error,
+  onSelect,
+  onToggleArchive,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  notebooks: Notebook[];
+  activeId: string | null;
+  archive: boolean;
+  counts: Map<string, number>;
+  error: string | null;
+  onSelect: (id: string | null) => void;
+  onToggleArchive: () => void;
+  onCreate: (name: string) => Promise<boolean>;
+  onRename: (id: string, name: string) => Promise<boolean>;
+  onDelete: (id: string) => void;
+}) {
+  // 'new' while naming a new notebook, or the id of the one being renamed.
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const active = notebooks.find((notebook) => notebook.id === activeId);
+
+  const startEditing = (id: string, current = '') => {
+    setEditing(id);
+    setName(current);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !name.trim()) return;
+    const saved = editing === 'new' ? await onCreate(name.trim()) : await onRename(editing, name.trim());
+    if (saved) setEditing(null);
+  };
+
+  return (
+    <div className="mb-4 space-y-2 font-mono text-xs uppercase">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onSelect(null)} className={tabClass(activeId === null)} aria-pressed={activeId === null}>
+          All
+        </button>
+        {notebooks.map((notebook) => (
+          <button
+            key={notebook.id}
+            onClick={() => onSelect(notebook.id)}
+            className={tabClass(activeId === notebook.id)}
+            aria-pressed={activeId === notebook.id}
+          >
+            {notebook.name} <span className="opacity-50">{counts.get(notebook.id) ?? 0}</span>
+          </button>
+        ))}
+        {editing ? (
+          <form onSubmit={submit} className="flex items-center gap-1 border-2 border-black bg-[#F5F2ED] px-2 py-0.5">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              placeholder="Notebook name"
+              maxLength={60}
+              className="w-32 bg-transparent outline-none normal-case"
+            />
+            <button type="submit" title="Save">
+              <Check className="w-3 h-3" />
+            </button>
+            <button type="button" onClick={() => setEditing(null)} title="Cancel">
+              <X className="w-3 h-3" />
+            </button>
+          </form>
+        ) : (
+          <button onClick={() => startEditing('new')} className="p-1 border-2 border-transparent hover:border-black" title="New notebook">
+            <FolderPlus className="w-4 h-4" />
+          </button>
+        )}
+        {active && !editing && (
+          <>
+            <button onClick={() => startEditing(active.id, active.name)} className="p-1 opacity-60 hover:opacity-100" title="Rename notebook">
+              <Edit2 className="w-3 h-3" />
+            </button>
+            <button onClick={() => onDelete(active.id)} className="p-1 opacity-60 hover:opacity-100 hover:text-red-600" title="Delete notebook (its notes are kept)">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </>
+        )}
+        <button
+          onClick={onToggleArchive}
+          className={`ml-auto flex items-center gap-1 ${tabClass(archive)}`}
+          title="Archived notes"
+          aria-pressed={archive}
+        >
+          <Archive className="w-3 h-3" /> Archive
+        </button>
+      </div>
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+}
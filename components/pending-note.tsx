@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { AudioPlayer } from '@/components/audio-player';
+import type { PendingRecording } from '@/lib/pending-recordings';
+
+// A recording still waiting on transcription, shown in the list until it
+// becomes a note or the user gives up on it.
+export function PendingNote({
+  recording,
+  active,
+  onRetry,
+  onDiscard,
+}: {
+  recording: PendingRecording;
+  active: boolean;
+  onRetry: () => void;
+  onDiscard: () => void;
+}) {
+  const created = new Date(recording.createdAt);
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="border-2 border-dashed border-black/40 p-3"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-xs font-bold uppercase tracking-wide">
+          {active ? 'Transcribing…' : 'Pending transcription'}
+        </span>
+        <span className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
+          {created.toLocaleDateString()} • {created.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      {recording.lastError && !active && (
+        <p className="mt-1 font-mono text-[10px] uppercase tracking-tighter text-red-600">
+          {recording.lastError.message}
+          {recording.failed ? " — won't retry" : ' — will retry automatically'}
+          {recording.attempts > 1 && ` (${recording.attempts} attempts)`}
+        </p>
+      )}
+      <AudioPlayer attachment={recording.attachment} />
+      <div className="flex justify-end gap-2 mt-2">
+        {active ? (
+          <Loader2 className="w-4 h-4 m-1 animate-spin" />
+        ) : (
+          <button
+            onClick={onRetry}
+            className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all"
+            title="Retry now"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={onDiscard}
+          disabled={active}
+          className="p-1 hover:bg-red-500 hover:text-white border border-transparent hover:border-black transition-all disabled:opacity-40"
+          title="Discard recording"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { fetchRelated } from '@/lib/notes/client';
+import type { Note, NoteMatch } from '@/lib/notes/types';
+import { describeNote } from '@/lib/voice-commands';
+
+// Notes close in meaning to `note`, loaded when the list is first opened and
+// again after each edit while it's open. Matches not in `notes` (hidden or not
+// synced yet) are left out.
+export function RelatedNotes({ note, notes, onOpen }: { note: Note; notes: Note[]; onOpen: (id: string) => void }) {
+  const [open, setOpen] = useState(false);
+  const [matches, setMatches] = useState<NoteMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchRelated(note.id)
+      .then((result) => {
+        if (cancelled) return;
+        setMatches(result);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Failed to load related notes:', err);
+        if (!cancelled) setError(err instanceof TypeError ? 'Offline' : err instanceof Error ? err.message : 'Could not load related notes');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, note.id, note.revision]);
+
+  const related = (matches ?? []).flatMap((match) => notes.find((other) => other.id === match.id) ?? []);
+
+  return (
+    <details className="mt-2 text-sm" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary className="font-mono text-[10px] uppercase tracking-widest opacity-50 cursor-pointer">Related notes</summary>
+      <div className="mt-1">
+        {error && <p className="font-mono text-[10px] font-bold uppercase text-red-600">{error}</p>}
+        {!matches && !error && <Loader2 className="w-4 h-4 animate-spin" />}
+        {matches && related.length === 0 && <p className="font-mono text-xs opacity-40">Nothing related yet.</p>}
+        <ul className="space-y-1">
+          {related.map((other) => (
+            <li key={other.id}>
+              <button onClick={() => onOpen(other.id)} className="text-left underline decoration-[#E6B3A3] decoration-2 hover:bg-[#E6B3A3]">
+                {describeNote(other, 60)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,11 @@
+'use client';
+
+import { useEffect } from 'react';
+import { registerServiceWorker } from '@/lib/service-worker';
+
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    registerServiceWorker().catch((error) => console.error('Service worker registration failed:', error));
+  }, []);
+  return null;
+}
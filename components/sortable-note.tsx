@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { GripVertical } from 'lucide-react';
+import { Reorder, useDragControls } from 'motion/react';
+
+// A note in the list. The list is a Reorder.Group, but notes only move by the
+// handle, and only while `sortable` (manual order) is on, so text can still be
+// selected and scrolled past on touch screens.
+export function SortableNote({
+  id,
+  sortable,
+  onDragEnd,
+  className,
+  children,
+}: {
+  id: string;
+  sortable: boolean;
+  onDragEnd: () => void;
+  className: string;
+  children: React.ReactNode;
+}) {
+  const controls = useDragControls();
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={id}
+      id={`note-${id}`}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onDragEnd}
+      layout
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className={className}
+    >
+      {sortable && (
+        <button
+          onPointerDown={(e) => controls.start(e)}
+          style={{ touchAction: 'none' }}
+          className="absolute -left-7 top-0 p-1 opacity-30 hover:opacity-100 cursor-grab active:cursor-grabbing"
+          title="Drag to reorder"
+          aria-label="Drag to reorder"
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+      )}
+      {children}
+    </Reorder.Item>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import { Loader2, RotateCcw, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useTrash } from '@/hooks/use-trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function purgeLabel(deletedAt: number, retentionDays: number | null): string {
+  if (retentionDays === null) return '';
+  const days = Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+  return days <= 1 ? ' • gone within a day' : ` • gone in ${days} days`;
+}
+
+// Deleted notes, with restore and delete-for-good. Shown over the page.
+export function TrashPanel({ onRestored, onClose }: { onRestored: () => void; onClose: () => void }) {
+  const trash = useTrash(onRestored);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-black/40 flex items-start justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-2xl mt-12 p-6"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-mono font-bold uppercase tracking-widest">Trash</h2>
+          <div className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-[0.2em] font-bold">
+            {trash.notes.length > 0 && (
+              <button
+                onClick={trash.empty}
+                className="border-2 border-black px-2 py-1 bg-white hover:bg-red-500 hover:text-white transition-colors"
+              >
+                Empty trash
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 border border-black hover:bg-gray-200" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {trash.retentionDays !== null && (
+          <p className="font-mono text-[10px] uppercase tracking-widest opacity-50 mb-4">
+            Deleted notes are kept for {trash.retentionDays} {trash.retentionDays === 1 ? 'day' : 'days'}
+          </p>
+        )}
+        {trash.error && <p className="font-mono text-xs font-bold uppercase text-red-600 mb-4">{trash.error}</p>}
+        {trash.loading && <Loader2 className="w-5 h-5 animate-spin mx-auto" />}
+        {!trash.loading && trash.notes.length === 0 && (
+          <p className="font-mono text-sm opacity-40 text-center py-8">Trash is empty.</p>
+        )}
+
+        <div className="space-y-4">
+          {trash.notes.map((note) => (
+            <div key={note.id} className="border-b-2 border-black/10 pb-3 last:border-0">
+              {note.title && <h3 className="font-mono font-bold uppercase tracking-wide text-sm">{note.title}</h3>}
+              <p className="whitespace-pre-wrap line-clamp-4 opacity-70">{note.content}</p>
+              <div className="flex justify-between items-center mt-2">
+                <span className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
+                  Deleted {new Date(note.deletedAt ?? 0).toLocaleDateString()}
+                  {purgeLabel(note.deletedAt ?? 0, trash.retentionDays)}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => trash.restore(note.id)}
+                    className="p-1 hover:bg-black hover:text-white border border-transparent hover:border-black transition-all"
+                    title="Restore"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => trash.purge(note.id)}
+                    className="p-1 hover:bg-red-500 hover:text-white border border-transparent hover:border-black transition-all"
+                    title="Delete forever"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
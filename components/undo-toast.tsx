@@ -0,0 +1,35 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { motion } from 'motion/react';
+
+export interface UndoAction {
+  message: string;
+  undo: () => void;
+}
+
+const UNDO_TIMEOUT_MS = 6000;
+
+export function UndoToast({ action, onDone }: { action: UndoAction; onDone: (undone: boolean) => void }) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDone(false), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [action, onDone]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="bg-white border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] px-4 py-3 flex items-center justify-between gap-4 w-full"
+    >
+      <span className="font-mono text-xs font-bold uppercase tracking-wide truncate">{action.message}</span>
+      <button
+        onClick={() => onDone(true)}
+        className="font-mono text-xs font-bold uppercase border-2 border-black px-2 py-1 bg-[#E6B3A3] hover:bg-black hover:text-white transition-colors shrink-0"
+      >
+        Undo
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,40 @@
+import * as React from "react"
+import { askNotes } from "@/lib/notes/client"
+import type { NoteMatch } from "@/lib/notes/types"
+
+/**
+ * "Ask your notes": searches by meaning on the server (/api/notes/ask). Only
+ * the answer to the latest question is kept if several are in flight.
+ */
+export function useAskNotes() {
+  const [matches, setMatches] = React.useState<NoteMatch[] | null>(null)
+  const [asking, setAsking] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const latestRef = React.useRef(0)
+
+  const ask = React.useCallback(async (query: string) => {
+    const id = ++latestRef.current
+    setAsking(true)
+    setError(null)
+    try {
+      const result = await askNotes(query)
+      if (id === latestRef.current) setMatches(result)
+    } catch (err) {
+      console.error("Ask failed", err)
+      if (id === latestRef.current) {
+        setError(err instanceof TypeError ? "Offline" : err instanceof Error ? err.message : "Something went wrong")
+      }
+    } finally {
+      if (id === latestRef.current) setAsking(false)
+    }
+  }, [])
+
+  const clear = React.useCallback(() => {
+    latestRef.current++
+    setMatches(null)
+    setAsking(false)
+    setError(null)
+  }, [])
+
+  return { matches, asking, error, ask, clear }
+}
@@ -0,0 +1,83 @@
+import * as React from "react"
+import { createNotebook, deleteNotebook, fetchNotebooks, renameNotebook } from "@/lib/notes/client"
+import type { Notebook } from "@/lib/notes/types"
+
+const CACHE_KEY = "brutalist-notes-notebooks"
+
+function readCache(): Notebook[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CACHE_KEY) || "[]")
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The user's notebooks from /api/notebooks. The list is cached in
+ * localStorage so tabs still show offline, but changes to it go straight to
+ * the server and need a connection. `onDeleted` runs after a notebook is
+ * deleted, so the notes list can pick up its unfiled notes.
+ */
+export function useNotebooks(userId: string | undefined, onDeleted: () => void) {
+  const [notebooks, setNotebooks] = React.useState<Notebook[]>([])
+  const [error, setError] = React.useState<string | null>(null)
+
+  const update = React.useCallback((change: (prev: Notebook[]) => Notebook[]) => {
+    setNotebooks((prev) => {
+      const next = change(prev)
+      localStorage.setItem(CACHE_KEY, JSON.stringify(next))
+      return next
+    })
+  }, [])
+
+  const run = React.useCallback(async (action: () => Promise<void>): Promise<boolean> => {
+    setError(null)
+    try {
+      await action()
+      return true
+    } catch (err) {
+      console.error("Notebook request failed", err)
+      setError(err instanceof TypeError ? "Offline" : err instanceof Error ? err.message : "Something went wrong")
+      return false
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    setNotebooks(readCache())
+    fetchNotebooks()
+      .then((result) => {
+        if (!cancelled) update(() => result)
+      })
+      .catch((err) => console.warn("Notebooks are offline", err))
+    return () => {
+      cancelled = true
+    }
+  }, [userId, update])
+
+  // Resolves to the new notebook, or null if it couldn't be made.
+  const create = React.useCallback(async (name: string) => {
+    let created = null as Notebook | null
+    await run(async () => {
+      const notebook = await createNotebook(name)
+      update((prev) => [...prev, notebook])
+      created = notebook
+    })
+    return created
+  }, [run, update])
+
+  const rename = React.useCallback((id: string, name: string) => run(async () => {
+    const notebook = await renameNotebook(id, name)
+    update((prev) => prev.map((other) => (other.id === id ? notebook : other)))
+  }), [run, update])
+
+  const remove = React.useCallback((id: string) => run(async () => {
+    await deleteNotebook(id)
+    update((prev) => prev.filter((notebook) => notebook.id !== id))
+    onDeleted()
+  }), [onDeleted, run, update])
+
+  return { notebooks, error, clearError: () => setError(null), create, rename, remove }
+}
@@ -0,0 +1,155 @@
+import * as React from "react"
+import { NotesApiError, fetchNotes } from "@/lib/notes/client"
+import { changesNote, draftNote, mergeNotes, newImports, patchNoteIn } from "@/lib/notes/local"
+import { applyOutbox, clearOutbox, enqueue, flushOutbox, readOutbox } from "@/lib/notes/sync"
+import { onPendingSynced } from "@/lib/service-worker"
+import type { Note, NotePatch, RevisionSource, NoteDetails } from "@/lib/notes/types"
+
+const STORAGE_KEY = "brutalist-notes"
+const OWNER_KEY = "brutalist-notes-owner"
+
+function readCache(): Note[] {
+  const saved = localStorage.getItem(STORAGE_KEY)
+  if (!saved) return []
+  try {
+    const parsed = JSON.parse(saved)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (e) {
+    console.error("Failed to parse notes", e)
+    return []
+  }
+}
+
+// The cache and outbox hold one account's notes. When someone else signs in on
+// this browser they are dropped rather than shown to, or uploaded as, them.
+// Data from before accounts existed has no owner and goes to the first user.
+function claimLocalNotes(userId: string) {
+  const owner = localStorage.getItem(OWNER_KEY)
+  if (owner && owner !== userId) {
+    localStorage.removeItem(STORAGE_KEY)
+    clearOutbox()
+  }
+  localStorage.setItem(OWNER_KEY, userId)
+}
+
+/**
+ * Notes of the signed-in user, backed by /api/notes, offline-first. Changes apply locally at once and
+ * are queued in an outbox (see lib/notes/sync) that is flushed whenever the
+ * server is reachable; localStorage caches the last known list.
+ */
+export function useNotes(userId: string | undefined) {
+  const [notes, setNotes] = React.useState<Note[]>([])
+  const [pendingCount, setPendingCount] = React.useState(0)
+  const [loaded, setLoaded] = React.useState(false)
+  const notesRef = React.useRef(notes)
+  notesRef.current = notes
+
+  const sync = React.useCallback(async () => {
+    try {
+      await flushOutbox()
+      const remote = await fetchNotes()
+      setNotes(applyOutbox(remote))
+    } catch (error) {
+      if (error instanceof NotesApiError && error.status === 401) {
+        window.location.assign("/login")
+        return
+      }
+      console.warn("Notes are offline; changes stay queued", error)
+    } finally {
+      setPendingCount(readOutbox().length)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!userId) return
+    claimLocalNotes(userId)
+    const cached = readCache()
+    // Notes from before server sync have no revision: queue them for upload once.
+    for (const note of cached) {
+      if (note.revision === undefined) {
+        enqueue({ type: "create", note: { ...note, updatedAt: note.updatedAt ?? note.createdAt, revision: 0 } })
+      }
+    }
+    setNotes(applyOutbox(cached.filter((note) => note.revision !== undefined)))
+    setLoaded(true)
+    sync()
+
+    const onOnline = () => sync()
+    window.addEventListener("online", onOnline)
+    window.addEventListener("focus", onOnline)
+    // The service worker saves notes for recordings it uploaded in the background.
+    const unsubscribe = onPendingSynced(onOnline)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      window.removeEventListener("focus", onOnline)
+      unsubscribe()
+    }
+  }, [sync, userId])
+
+  React.useEffect(() => {
+    if (loaded) localStorage.setItem(STORAGE_KEY, JSON.stringify(notes))
+  }, [notes, loaded])
+
+  // `origin` gives the note a fixed id and creation time (see draftNote); one
+  // already here, saved by the service worker say, isn't added again.
+  const addNote = React.useCallback((
+    content: string,
+    details: NoteDetails = {},
+    source: RevisionSource = "typed",
+    origin?: Pick<Note, "id" | "createdAt">,
+  ) => {
+    if (origin && notesRef.current.some((n) => n.id === origin.id)) return
+    const note = draftNote(content, details, origin?.createdAt, origin?.id)
+    setNotes((prev) => [note, ...prev])
+    enqueue({ type: "create", note, source })
+    sync()
+  }, [sync])
+
+  // `source` says what produced a change to the text, for the note's history.
+  const updateNote = React.useCallback((id: string, patch: NotePatch, source: RevisionSource = "typed") => {
+    const note = notesRef.current.find((n) => n.id === id)
+    if (!note || !changesNote(note, patch)) return
+
+    const editedAt = Date.now()
+    setNotes((prev) => patchNoteIn(prev, id, patch, editedAt))
+    enqueue({ type: "update", id, patch, baseRevision: note.revision, editedAt, source })
+    sync()
+  }, [sync])
+
+  // Deleted notes go to the server's trash, so their recordings are kept
+  // until they are deleted from there (see useTrash).
+  const deleteNote = React.useCallback((id: string) => {
+    const note = notesRef.current.find((n) => n.id === id)
+    if (!note) return
+
+    setNotes((prev) => prev.filter((n) => n.id !== id))
+    enqueue({ type: "delete", id, baseRevision: note.revision })
+    sync()
+  }, [sync])
+
+  // Undoes a delete: the note is shown again at once and taken back out of the
+  // trash after the queued delete has been sent.
+  const restoreNote = React.useCallback((note: Note) => {
+    if (notesRef.current.some((n) => n.id === note.id)) return
+
+    setNotes((prev) => mergeNotes(prev, [note]))
+    enqueue({ type: "restore", note })
+    sync()
+  }, [sync])
+
+  /**
+   * Adds notes from an import. Notes whose id is already present are skipped,
+   * so importing the same backup twice is harmless. Returns how many were added.
+   */
+  const importNotes = React.useCallback((incoming: Note[]) => {
+    const added = newImports(notesRef.current, incoming)
+    if (added.length === 0) return 0
+
+    setNotes((prev) => mergeNotes(prev, added))
+    for (const note of added) enqueue({ type: "create", note })
+    sync()
+    return added.length
+  }, [sync])
+
+  return { notes, pendingCount, addNote, updateNote, deleteNote, restoreNote, importNotes, refresh: sync }
+}
@@ -0,0 +1,174 @@
+import * as React from "react"
+import { deleteAudio, loadAudio } from "@/lib/audio-store"
+import { deletePending, listPending, savePending, type PendingRecording } from "@/lib/pending-recordings"
+import { onPendingSynced, requestPendingSync } from "@/lib/service-worker"
+import {
+  TranscriptionRequestError,
+  audioFilename,
+  backoffMs,
+  isRetryable,
+  requestTranscription,
+  type TranscriptionResponse,
+} from "@/lib/transcription/client"
+
+// Queued retries back off up to this long between attempts.
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000
+const LOCK_NAME = "brutalist-notes-pending"
+
+type NewPending = Pick<PendingRecording, "attachment" | "language" | "translate">
+
+function describeError(error: unknown): PendingRecording["lastError"] {
+  return error instanceof TranscriptionRequestError
+    ? { kind: error.kind, message: error.summary }
+    : { kind: "network", message: "Transcription failed" }
+}
+
+/**
+ * Recordings whose transcription failed, kept in IndexedDB and retried with
+ * backoff — and straight away when the browser comes back online or regains
+ * focus. `onTranscribed` turns a finished one into a note. Where the browser
+ * supports Background Sync, the service worker also uploads them once online,
+ * even with the page closed (see public/sw.js).
+ */
+export function usePendingRecordings(onTranscribed: (recording: PendingRecording, result: TranscriptionResponse) => void) {
+  const [pending, setPending] = React.useState<PendingRecording[]>([])
+  const [activeId, setActiveId] = React.useState<string | null>(null)
+  const onTranscribedRef = React.useRef(onTranscribed)
+  onTranscribedRef.current = onTranscribed
+  const runningRef = React.useRef(false)
+
+  const refresh = React.useCallback(async () => {
+    setPending(await listPending())
+  }, [])
+
+  const attempt = React.useCallback(async (recording: PendingRecording): Promise<boolean> => {
+    const blob = await loadAudio(recording.attachment.id)
+    if (!blob) {
+      // The audio is gone (site data cleared); nothing left to transcribe.
+      await deletePending(recording.id)
+      return true
+    }
+
+    setActiveId(recording.id)
+    const formData = new FormData()
+    formData.append("file", blob, audioFilename(blob))
+    formData.append("durationMs", String(recording.attachment.durationMs))
+    formData.append("language", recording.language)
+    formData.append("translate", String(recording.translate))
+
+    try {
+      const result = await requestTranscription(formData, { retries: 0 })
+      if (!result.text?.trim()) {
+        await savePending({
+          ...recording,
+          attempts: recording.attempts + 1,
+          lastError: { kind: "bad_audio", message: "Couldn't hear clearly" },
+          failed: true,
+        })
+        return true
+      }
+      await deletePending(recording.id)
+      // Queued recordings always become notes; a spoken command is only
+      // acted on while the user is there to see it.
+      onTranscribedRef.current(recording, result)
+      return true
+    } catch (error) {
+      const attempts = recording.attempts + 1
+      const retryAfter = error instanceof TranscriptionRequestError ? error.retryAfterMs : undefined
+      await savePending({
+        ...recording,
+        attempts,
+        nextAttemptAt: Date.now() + (retryAfter ?? backoffMs(attempts, MAX_RETRY_DELAY_MS)),
+        lastError: describeError(error),
+        failed: !isRetryable(error),
+      })
+      if (isRetryable(error)) void requestPendingSync()
+      // Offline or signed out: the rest of the queue would fail the same way.
+      return !(error instanceof TranscriptionRequestError && (error.kind === "network" || error.kind === "auth"))
+    } finally {
+      setActiveId(null)
+    }
+  }, [])
+
+  /** Tries every recording that is due. Only one tab works the queue at a time. */
+  const processQueue = React.useCallback(async () => {
+    if (runningRef.current) return
+    runningRef.current = true
+
+    const run = async () => {
+      for (const recording of await listPending()) {
+        if (recording.failed || recording.nextAttemptAt > Date.now()) continue
+        if (!(await attempt(recording))) break
+      }
+    }
+    try {
+      if (navigator.locks) {
+        await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => (lock ? run() : undefined))
+      } else {
+        await run()
+      }
+    } catch (error) {
+      console.error("Failed to process pending recordings", error)
+    } finally {
+      runningRef.current = false
+      await refresh()
+    }
+  }, [attempt, refresh])
+
+  React.useEffect(() => {
+    processQueue()
+    const onOnline = () => processQueue()
+    window.addEventListener("online", onOnline)
+    window.addEventListener("focus", onOnline)
+    const unsubscribe = onPendingSynced(refresh)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      window.removeEventListener("focus", onOnline)
+      unsubscribe()
+    }
+  }, [processQueue, refresh])
+
+  // Wake up for the next scheduled retry.
+  React.useEffect(() => {
+    const due = pending.filter((recording) => !recording.failed).map((recording) => recording.nextAttemptAt)
+    if (due.length === 0) return
+    const timer = setTimeout(processQueue, Math.max(1000, Math.min(...due) - Date.now()))
+    return () => clearTimeout(timer)
+  }, [pending, processQueue])
+
+  /** Queues a recording after a failed transcription (`error`), or to run at once. */
+  const enqueueRecording = React.useCallback(async (recording: NewPending, error?: unknown) => {
+    await savePending({
+      ...recording,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      attempts: error ? 1 : 0,
+      nextAttemptAt: error ? Date.now() + backoffMs(1, MAX_RETRY_DELAY_MS) : Date.now(),
+      lastError: error ? describeError(error) : undefined,
+      failed: error ? !isRetryable(error) : false,
+    })
+    if (error) {
+      await refresh()
+      if (isRetryable(error)) void requestPendingSync()
+    } else {
+      await processQueue()
+    }
+  }, [processQueue, refresh])
+
+  const retryRecording = React.useCallback(async (id: string) => {
+    const recording = pending.find((candidate) => candidate.id === id)
+    if (!recording) return
+    await savePending({ ...recording, nextAttemptAt: Date.now(), failed: false })
+    await processQueue()
+  }, [pending, processQueue])
+
+  const discardRecording = React.useCallback(async (id: string) => {
+    const recording = pending.find((candidate) => candidate.id === id)
+    if (!recording) return
+    await deletePending(id)
+    await deleteAudio(recording.attachment.id).catch((error) => console.error("Failed to delete recording", error))
+    await refresh()
+  }, [pending, refresh])
+
+  return { pending, activeId, enqueueRecording, retryRecording, discardRecording }
+}
@@ -0,0 +1,177 @@
+import * as React from "react"
+import { formatDue, parseDueDate, type DueDate } from "@/lib/notes/due-date"
+import type { Note, NotePatch } from "@/lib/notes/types"
+import { describeNote } from "@/lib/voice-commands"
+
+// Dates found in notes that were already set or dismissed, as "<note id>:<words>".
+const HANDLED_KEY = "brutalist-notes-due-handled"
+// "<note id>:<words>" → when those words were first seen in the note, which
+// relative dates in them are read from.
+const WRITTEN_KEY = "brutalist-notes-due-written"
+// Note id → the remindAt a notification was shown for, so each fires once.
+const REMINDED_KEY = "brutalist-notes-reminded"
+// Reminders that came due while the app was closed are still shown if they're this recent.
+const MISSED_LIMIT_MS = 24 * 60 * 60 * 1000
+// Longest single wait for the next reminder; it's re-checked after that.
+const MAX_WAIT_MS = 60 * 60 * 1000
+const TICK_MS = 60 * 1000
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "null") ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+function phraseKey(note: Note, due: DueDate): string {
+  return `${note.id}:${due.text.toLowerCase()}`
+}
+
+// Through the service worker where there is one: mobile browsers only show
+// notifications that way.
+async function showReminder(note: Note) {
+  const options: NotificationOptions = {
+    body: note.dueAt === undefined ? undefined : `Due ${formatDue(note.dueAt)}`,
+    tag: note.id,
+    icon: "/icons/192",
+    data: { noteId: note.id },
+  }
+  const registration = await navigator.serviceWorker?.getRegistration()
+  if (registration) {
+    // Clicks are handled in public/sw.js.
+    await registration.showNotification(describeNote(note, 60), options)
+    return
+  }
+  const notification = new Notification(describeNote(note, 60), options)
+  notification.onclick = () => window.focus()
+}
+
+/**
+ * Due dates and reminders for `notes`. Dates written in a note are offered as
+ * `suggestions` until they are confirmed or dismissed; confirming one sets both
+ * the due date and a reminder. Reminders show a browser notification when they
+ * come due, while the app is open in some tab. `now` ticks every minute, for
+ * showing what is overdue.
+ */
+export function useReminders(notes: Note[], updateNote: (id: string, patch: NotePatch) => void) {
+  const [now, setNow] = React.useState(() => Date.now())
+  const [handled, setHandled] = React.useState<string[]>([])
+  const [writtenAt, setWrittenAt] = React.useState<Record<string, number>>({})
+  const [permission, setPermission] = React.useState<NotificationPermission | null>(null)
+
+  React.useEffect(() => {
+    setHandled(readJson<string[]>(HANDLED_KEY, []))
+    setWrittenAt(readJson<Record<string, number>>(WRITTEN_KEY, {}))
+    if ("Notification" in window) setPermission(Notification.permission)
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const markHandled = React.useCallback((note: Note, due: DueDate) => {
+    setHandled((prev) => {
+      const next = [...prev, phraseKey(note, due)]
+      localStorage.setItem(HANDLED_KEY, JSON.stringify(next))
+      return next
+    })
+  }, [])
+
+  // Relative words are read against when they were written: the change to the
+  // content that brought them in, as first seen here. Not the note's last
+  // update, which pinning or filing moves, nor its creation, which an edit
+  // days later would leave behind. Another browser, or one that missed the
+  // edit, goes by the last change to the content.
+  const { suggestions, phrases } = React.useMemo(() => {
+    const found = new Map<string, DueDate>()
+    const phrases = new Map<string, number>()
+    for (const note of notes) {
+      const lastWritten = note.contentUpdatedAt ?? note.createdAt
+      const latest = parseDueDate(note.content, new Date(lastWritten))
+      if (!latest) continue
+      const key = phraseKey(note, latest)
+      const written = writtenAt[key] ?? lastWritten
+      phrases.set(key, written)
+
+      const due = written === lastWritten ? latest : parseDueDate(note.content, new Date(written))
+      if (!due || due.dueAt <= now || due.dueAt === note.dueAt || handled.includes(key)) continue
+      found.set(note.id, due)
+    }
+    return { suggestions: found, phrases }
+  }, [notes, handled, writtenAt, now])
+
+  // Remembers when each phrase was first seen, and forgets those edited away.
+  // Read from storage rather than state, which may not have been loaded yet.
+  React.useEffect(() => {
+    const stored = readJson<Record<string, number>>(WRITTEN_KEY, {})
+    const ids = new Set(notes.map((note) => note.id))
+    let changed = false
+    for (const key of Object.keys(stored)) {
+      if (ids.has(key.slice(0, key.indexOf(":"))) && !phrases.has(key)) {
+        delete stored[key]
+        changed = true
+      }
+    }
+    for (const [key, written] of phrases) {
+      if (stored[key] === undefined) {
+        stored[key] = written
+        changed = true
+      }
+    }
+    if (!changed) return
+    localStorage.setItem(WRITTEN_KEY, JSON.stringify(stored))
+    setWrittenAt(stored)
+  }, [notes, phrases])
+
+  // Shows what has come due, then waits for the next reminder.
+  React.useEffect(() => {
+    const current = Date.now()
+    const reminded = readJson<Record<string, number>>(REMINDED_KEY, {})
+    let next = Infinity
+    for (const note of notes) {
+      if (note.remindAt === undefined || reminded[note.id] === note.remindAt) continue
+      if (note.remindAt > current) {
+        next = Math.min(next, note.remindAt)
+        continue
+      }
+      reminded[note.id] = note.remindAt
+      if (note.remindAt > current - MISSED_LIMIT_MS && "Notification" in window && Notification.permission === "granted") {
+        showReminder(note).catch((error) => console.error("Failed to show reminder", error))
+      }
+    }
+    for (const [id, remindAt] of Object.entries(reminded)) {
+      if (remindAt < current - MISSED_LIMIT_MS) delete reminded[id]
+    }
+    localStorage.setItem(REMINDED_KEY, JSON.stringify(reminded))
+
+    if (next === Infinity) return
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(next - current, MAX_WAIT_MS))
+    return () => clearTimeout(timer)
+  }, [notes, now])
+
+  // Asked for when a reminder is first set, which is a click, as browsers require.
+  const requestPermission = React.useCallback(() => {
+    if (!("Notification" in window) || Notification.permission !== "default") return
+    Notification.requestPermission()
+      .then(setPermission)
+      .catch((error) => console.warn("Notification permission request failed", error))
+  }, [])
+
+  const confirmDue = React.useCallback((note: Note, due: DueDate) => {
+    markHandled(note, due)
+    updateNote(note.id, { dueAt: due.dueAt, remindAt: due.dueAt })
+    requestPermission()
+  }, [markHandled, requestPermission, updateNote])
+
+  const dismissDue = markHandled
+
+  const setReminder = React.useCallback((note: Note, on: boolean) => {
+    updateNote(note.id, { remindAt: on ? note.dueAt : null })
+    if (on) requestPermission()
+  }, [requestPermission, updateNote])
+
+  const clearDue = React.useCallback((note: Note) => {
+    updateNote(note.id, { dueAt: null, remindAt: null })
+  }, [updateNote])
+
+  return { now, suggestions, permission, confirmDue, dismissDue, setReminder, clearDue }
+}
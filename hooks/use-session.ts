@@ -0,0 +1,51 @@
+import * as React from "react"
+import type { PublicUser } from "@/lib/auth/users"
+
+const STORAGE_KEY = "brutalist-notes-session"
+
+function readCachedUser(): PublicUser | null {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "null")
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The signed-in user. Middleware keeps signed-out visitors off the page, so the
+ * last known user is used straight away (notes work offline) and confirmed
+ * with /api/auth/session; a 401 there means the session has expired.
+ */
+export function useSession() {
+  const [user, setUser] = React.useState<PublicUser | null>(null)
+
+  React.useEffect(() => {
+    setUser(readCachedUser())
+
+    let cancelled = false
+    fetch("/api/auth/session")
+      .then(async (response) => {
+        if (response.status === 401) {
+          localStorage.removeItem(STORAGE_KEY)
+          window.location.assign("/login")
+          return
+        }
+        if (!response.ok) throw new Error(`Session check failed with status ${response.status}`)
+        const data: { user: PublicUser } = await response.json()
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(data.user))
+        if (!cancelled) setUser(data.user)
+      })
+      .catch((error) => console.warn("Could not confirm session; using the cached one", error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const signOut = React.useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined)
+    localStorage.removeItem(STORAGE_KEY)
+    window.location.assign("/login")
+  }, [])
+
+  return { user, signOut }
+}
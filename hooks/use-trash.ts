@@ -0,0 +1,67 @@
+import * as React from "react"
+import { deleteAudio } from "@/lib/audio-store"
+import { emptyTrash, fetchTrash, purgeFromTrash, restoreFromTrash } from "@/lib/notes/client"
+import type { Note } from "@/lib/notes/types"
+
+function forgetRecordings(notes: Note[]) {
+  for (const note of notes) {
+    if (!note.attachment) continue
+    deleteAudio(note.attachment.id).catch((error) => console.error("Failed to delete recording", error))
+  }
+}
+
+/**
+ * The server-side trash, loaded on mount. Unlike notes it isn't cached or
+ * queued offline: every action goes straight to /api/notes/trash. `onRestored`
+ * runs after a note comes back, so the notes list can pick it up.
+ */
+export function useTrash(onRestored: () => void) {
+  const [notes, setNotes] = React.useState<Note[]>([])
+  const [retentionDays, setRetentionDays] = React.useState<number | null>(null)
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const run = React.useCallback(async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error("Trash request failed", err)
+      setError(err instanceof TypeError ? "Offline" : err instanceof Error ? err.message : "Something went wrong")
+    }
+  }, [])
+
+  React.useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    run(async () => {
+      const trash = await fetchTrash()
+      if (cancelled) return
+      setNotes(trash.notes)
+      setRetentionDays(trash.retentionDays)
+    }).finally(() => setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [run])
+
+  const restore = React.useCallback((id: string) => run(async () => {
+    await restoreFromTrash(id)
+    setNotes((prev) => prev.filter((note) => note.id !== id))
+    onRestored()
+  }), [onRestored, run])
+
+  const purge = React.useCallback((id: string) => run(async () => {
+    await purgeFromTrash(id)
+    forgetRecordings(notes.filter((note) => note.id === id))
+    setNotes((prev) => prev.filter((note) => note.id !== id))
+  }), [notes, run])
+
+  const empty = React.useCallback(() => run(async () => {
+    await emptyTrash()
+    forgetRecordings(notes)
+    setNotes([])
+  }), [notes, run])
+
+  return { notes, retentionDays, loading, error, restore, purge, empty }
+}
@@ -0,0 +1,64 @@
+import * as React from "react"
+import { SilenceDetector, meterLevel, rmsLevel, type SilenceDetectorOptions } from "@/lib/voice-activity"
+
+/** Bars in the level meter, oldest first. */
+export const METER_BARS = 12
+const SAMPLE_INTERVAL_MS = 50
+
+// Long enough for a pause to think, short enough not to feel stuck.
+const DEFAULT_SILENCE: SilenceDetectorOptions = { silenceMs: 2000, noSpeechMs: 8000 }
+
+const EMPTY_LEVELS: number[] = Array(METER_BARS).fill(0)
+
+/**
+ * Listens to a microphone stream through Web Audio: recent levels for the
+ * meter, and `onSilence` once the speaker has gone quiet. Sampling runs on a
+ * timer rather than animation frames so it carries on in a background tab.
+ */
+export function useVoiceActivity() {
+  const [levels, setLevels] = React.useState<number[]>(EMPTY_LEVELS)
+  const [speaking, setSpeaking] = React.useState(false)
+  const stopRef = React.useRef<(() => void) | null>(null)
+
+  const stop = React.useCallback(() => {
+    stopRef.current?.()
+    stopRef.current = null
+    setLevels(EMPTY_LEVELS)
+    setSpeaking(false)
+  }, [])
+
+  const start = React.useCallback(
+    (stream: MediaStream, onSilence?: () => void, options: SilenceDetectorOptions = DEFAULT_SILENCE) => {
+      stop()
+      const context = new AudioContext()
+      const analyser = context.createAnalyser()
+      analyser.fftSize = 2048
+      context.createMediaStreamSource(stream).connect(analyser)
+
+      const samples = new Float32Array(analyser.fftSize)
+      const detector = new SilenceDetector(options)
+      let silenced = false
+      const timer = setInterval(() => {
+        analyser.getFloatTimeDomainData(samples)
+        const level = rmsLevel(samples)
+        const activity = detector.update(level, Date.now())
+        setLevels((prev) => [...prev.slice(1), meterLevel(level)])
+        setSpeaking(activity.speaking)
+        if (activity.done && onSilence && !silenced) {
+          silenced = true
+          onSilence()
+        }
+      }, SAMPLE_INTERVAL_MS)
+
+      stopRef.current = () => {
+        clearInterval(timer)
+        void context.close()
+      }
+    },
+    [stop],
+  )
+
+  React.useEffect(() => stop, [stop])
+
+  return { levels, speaking, start, stop }
+}
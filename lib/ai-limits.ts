@@ -0,0 +1,52 @@
+import { clientAddress, takeRateLimits } from "@/lib/rate-limit";
+import { envNumber } from "@/lib/transcription/limits";
+import { secondsUntilUtcMidnight, takeAiRequest } from "@/lib/usage";
+
+/**
+ * Guards on the routes that send text to a paid model (/api/process,
+ * /api/notes/ask, /api/notes/:id/related), read from the environment on each
+ * request. The routes share one budget:
+ *
+ *   AI_RATE_LIMIT          requests per minute per user (default 30)
+ *   AI_RATE_LIMIT_CLIENT   requests per minute per client IP (default 60)
+ *   DAILY_AI_REQUESTS      requests per user per UTC day (default 1000)
+ *
+ * Set a limit to 0 to turn it off.
+ */
+export interface AiLimits {
+  userRequestsPerMinute: number;
+  clientRequestsPerMinute: number;
+  dailyRequests: number;
+}
+
+export function getAiLimits(): AiLimits {
+  return {
+    userRequestsPerMinute: envNumber("AI_RATE_LIMIT", 30),
+    clientRequestsPerMinute: envNumber("AI_RATE_LIMIT_CLIENT", 60),
+    dailyRequests: envNumber("DAILY_AI_REQUESTS", 1000),
+  };
+}
+
+export interface AiRefusal {
+  error: string;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Why a request to one of those routes must be turned away (with 429), or
+ * undefined after counting it. As with transcription, the per-IP limit only
+ * applies when the client's address is known (see clientAddress).
+ */
+export async function takeAiAllowance(request: Request, userId: string): Promise<AiRefusal | undefined> {
+  const limits = getAiLimits();
+  const address = clientAddress(request);
+  const rateLimits: [string, number][] = [[`ai:user:${userId}`, limits.userRequestsPerMinute]];
+  if (address) rateLimits.push([`ai:client:${address}`, limits.clientRequestsPerMinute]);
+
+  const rate = takeRateLimits(rateLimits);
+  if (!rate.ok) return { error: "Too many AI requests; slow down", retryAfterSeconds: rate.retryAfterSeconds };
+  if (!(await takeAiRequest(userId, limits.dailyRequests))) {
+    return { error: `Daily limit of ${limits.dailyRequests} AI requests reached`, retryAfterSeconds: secondsUntilUtcMidnight() };
+  }
+  return undefined;
+}
@@ -0,0 +1,35 @@
+import { ImageResponse } from "next/og";
+
+/**
+ * The app icon: the mic button on the page background. The button stays in the
+ * middle 60%, so the same image works as a maskable icon that launchers crop.
+ */
+export function appIcon(size: number): ImageResponse {
+  const button = Math.round(size * 0.6);
+  const border = Math.max(2, Math.round(size * 0.03));
+  return new ImageResponse(
+    (
+      <div style={{ width: "100%", height: "100%", display: "flex", alignItems: "center", justifyContent: "center", background: "#F5F2ED" }}>
+        <div
+          style={{
+            width: button,
+            height: button,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            borderRadius: "50%",
+            border: `${border}px solid black`,
+            background: "#E6B3A3",
+          }}
+        >
+          <svg width={button * 0.5} height={button * 0.5} viewBox="0 0 24 24" fill="none" stroke="black" strokeWidth={2.5} strokeLinecap="round">
+            <rect x="9" y="2" width="6" height="13" rx="3" />
+            <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
+            <path d="M12 19v3" />
+          </svg>
+        </div>
+      </div>
+    ),
+    { width: size, height: size },
+  );
+}
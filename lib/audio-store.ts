@@ -0,0 +1,15 @@
+import { withStore } from "./idb";
+
+/** Recorded audio for voice notes, keyed by AudioAttachment.id. Browser only. */
+export async function saveAudio(id: string, blob: Blob): Promise<void> {
+  await withStore("audio", "readwrite", (store) => store.put(blob, id));
+}
+
+export async function loadAudio(id: string): Promise<Blob | undefined> {
+  const blob = await withStore<Blob | undefined>("audio", "readonly", (store) => store.get(id));
+  return blob ?? undefined;
+}
+
+export async function deleteAudio(id: string): Promise<void> {
+  await withStore("audio", "readwrite", (store) => store.delete(id));
+}
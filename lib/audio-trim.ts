@@ -0,0 +1,88 @@
+import { speechBounds } from "./voice-activity";
+
+/** Rate trimmed audio is re-encoded at; plenty for speech recognition. */
+const TRIM_SAMPLE_RATE = 16_000;
+/** Less silence than this isn't worth re-encoding the recording for. */
+const MIN_TRIM_MS = 500;
+
+export interface TrimmedAudio {
+  blob: Blob;
+  durationMs: number;
+}
+
+/** 16-bit mono PCM WAV. */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+/** Decodes a recording to mono at TRIM_SAMPLE_RATE. Browser only. */
+async function decodeMono(blob: Blob): Promise<Float32Array> {
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+    const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * TRIM_SAMPLE_RATE), TRIM_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return (await offline.startRendering()).getChannelData(0);
+  } finally {
+    void context.close();
+  }
+}
+
+/**
+ * Cuts silence off the chosen ends of a recording, re-encoding it as WAV.
+ * Resolves to null when there's no speech in it at all, and to the original
+ * recording when there's little to cut or the browser can't decode it.
+ */
+export async function trimSilence(
+  blob: Blob,
+  durationMs: number,
+  { leading = true, trailing = true }: { leading?: boolean; trailing?: boolean } = {},
+): Promise<TrimmedAudio | null> {
+  let samples: Float32Array;
+  try {
+    samples = await decodeMono(blob);
+  } catch (error) {
+    console.warn("Could not decode recording to trim it", error);
+    return { blob, durationMs };
+  }
+
+  const bounds = speechBounds(samples, TRIM_SAMPLE_RATE);
+  if (!bounds) return null;
+
+  const start = leading ? bounds.start : 0;
+  const end = trailing ? bounds.end : samples.length;
+  const cutMs = ((samples.length - (end - start)) / TRIM_SAMPLE_RATE) * 1000;
+  if (cutMs < MIN_TRIM_MS) return { blob, durationMs };
+
+  return {
+    blob: encodeWav(samples.subarray(start, end), TRIM_SAMPLE_RATE),
+    durationMs: Math.round(((end - start) / TRIM_SAMPLE_RATE) * 1000),
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * The sign-in page URL that spends `token`. Emailed links must point at this
+ * app whatever Host header the request came with, so production needs APP_URL.
+ */
+export function loginLink(request: Request, token: string): URL {
+  const configured = process.env.APP_URL;
+  let origin = new URL(request.url).origin;
+  if (configured && configured !== "MY_APP_URL") {
+    origin = configured;
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL must be set in production");
+  }
+
+  const link = new URL("/login", origin);
+  link.searchParams.set("token", token);
+  return link;
+}
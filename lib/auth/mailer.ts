@@ -0,0 +1,40 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import nodemailer, { type Transporter } from "nodemailer";
+import { dataPath } from "@/lib/json-file";
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+let transport: Transporter | null = null;
+
+/**
+ * Sends `mail` through the SMTP server in SMTP_URL, from MAIL_FROM. Without
+ * one, outside production, each message is written to
+ * NOTES_DATA_DIR/mail/<time>-<to>.eml instead, and logged in development so
+ * sign-in links can be followed without a mail server. Messages carry live
+ * sign-in tokens, so nothing else logs them.
+ */
+export async function sendMail(mail: Mail): Promise<void> {
+  const smtpUrl = process.env.SMTP_URL;
+  if (smtpUrl) {
+    transport ??= nodemailer.createTransport(smtpUrl);
+    await transport.sendMail({ from: process.env.MAIL_FROM || "Notes <notes@localhost>", ...mail });
+    return;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SMTP_URL must be set in production");
+  }
+
+  const dir = dataPath("mail");
+  await mkdir(dir, { recursive: true });
+
+  const file = `${dir}/${Date.now()}-${mail.to.replace(/[^\w.@-]/g, "_")}.eml`;
+  const message = [`To: ${mail.to}`, `Subject: ${mail.subject}`, `Date: ${new Date().toUTCString()}`, "", mail.text, ""];
+  await writeFile(file, message.join("\r\n"));
+  if (process.env.NODE_ENV === "development") {
+    console.info(`[mail] to ${mail.to}: ${mail.subject}\n${mail.text}`);
+  }
+}
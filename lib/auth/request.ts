@@ -0,0 +1,33 @@
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSession, verifySession, type Session } from "./session";
+import type { User } from "./users";
+
+/**
+ * The signed-in user of the current request. Middleware already turns away
+ * requests without a session; routes still check so they never run unscoped.
+ */
+export async function getSession(): Promise<Session | undefined> {
+  const store = await cookies();
+  return verifySession(store.get(SESSION_COOKIE)?.value);
+}
+
+/** ADMIN_EMAILS is a comma-separated list of accounts that can see everyone's usage. */
+export function isAdmin(session: Session): boolean {
+  const admins = (process.env.ADMIN_EMAILS ?? "").split(",").map((email) => email.trim().toLowerCase());
+  return admins.includes(session.email.toLowerCase());
+}
+
+export async function setSessionCookie(response: NextResponse, user: Pick<User, "id" | "email">) {
+  response.cookies.set(SESSION_COOKIE, await signSession(user), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
@@ -0,0 +1,160 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { createQueue, dataPath, readJsonFile, writeJsonFile } from "@/lib/json-file";
+import { adoptLegacyNotes } from "@/lib/notes/store";
+import { hashPassword, verifyPassword } from "./passwords";
+
+export interface User {
+  id: string;
+  email: string;
+  /** Absent for accounts that only ever signed in with an email link. */
+  passwordHash?: string;
+  /**
+   * When the address was first confirmed with an emailed link. Accounts from
+   * before sign-up needed confirming lack it, and their password isn't trusted.
+   */
+  verifiedAt?: number;
+  createdAt: number;
+}
+
+/** What the API sends back about a user. */
+export type PublicUser = Pick<User, "id" | "email" | "createdAt">;
+
+export function publicUser({ id, email, createdAt }: User): PublicUser {
+  return { id, email, createdAt };
+}
+
+// Sign-in links are stored as a hash so a leaked users.json can't be replayed.
+interface LoginToken {
+  hash: string;
+  email: string;
+  expiresAt: number;
+  /** Password chosen at sign-up, set on the account when the link is used. */
+  passwordHash?: string;
+}
+
+interface UserData {
+  users: User[];
+  loginTokens: LoginToken[];
+}
+
+export const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+function usersFile(): string {
+  return dataPath("users.json");
+}
+
+const queue = createQueue();
+
+function readData(): Promise<UserData> {
+  return readJsonFile<UserData>(usersFile(), { users: [], loginTokens: [] });
+}
+
+function mutate<T>(fn: (data: UserData) => { data: UserData; result: T }): Promise<T> {
+  return queue.run(async () => {
+    const { data, result } = fn(await readData());
+    await writeJsonFile(usersFile(), data);
+    return result;
+  });
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function listUsers(): Promise<User[]> {
+  await queue.idle();
+  return (await readData()).users;
+}
+
+export async function getUser(id: string): Promise<User | undefined> {
+  await queue.idle();
+  return (await readData()).users.find((user) => user.id === id);
+}
+
+/**
+ * The account for `email`, created if there is none yet, once someone has
+ * shown they read its mail. A password set before the address was confirmed
+ * could be anyone's, so it is dropped unless this link is what sets it.
+ */
+async function confirmUser(email: string, passwordHash?: string): Promise<User> {
+  const now = Date.now();
+  const { user, first } = await mutate((data) => {
+    const existing = data.users.find((candidate) => candidate.email === email);
+    if (existing) {
+      const user: User = {
+        ...existing,
+        passwordHash: passwordHash ?? (existing.verifiedAt ? existing.passwordHash : undefined),
+        verifiedAt: existing.verifiedAt ?? now,
+      };
+      const users = data.users.map((candidate) => (candidate === existing ? user : candidate));
+      return { data: { ...data, users }, result: { user, first: false } };
+    }
+
+    const user: User = { id: randomUUID(), email, passwordHash, verifiedAt: now, createdAt: now };
+    return { data: { ...data, users: [...data.users, user] }, result: { user, first: data.users.length === 0 } };
+  });
+  // Notes from before accounts existed belong to whoever sets the app up.
+  if (first) await adoptLegacyNotes(user.id);
+  return user;
+}
+
+/**
+ * Starts a password sign-up: a one-time token that creates the account, or
+ * sets its password, when the link it is mailed in is used. Undefined if the
+ * address already has a confirmed password.
+ */
+export async function createSignUpToken(email: string, password: string): Promise<string | undefined> {
+  await queue.idle();
+  const existing = (await readData()).users.find((user) => user.email === email);
+  if (existing?.verifiedAt && existing.passwordHash) return undefined;
+  return createLoginToken(email, await hashPassword(password));
+}
+
+/**
+ * The user for `email` and `password`, "unconfirmed" when the password is
+ * right but the address was never confirmed, otherwise undefined.
+ */
+export async function authenticate(email: string, password: string): Promise<User | "unconfirmed" | undefined> {
+  await queue.idle();
+  const user = (await readData()).users.find((existing) => existing.email === email);
+  if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) return undefined;
+  return user.verifiedAt ? user : "unconfirmed";
+}
+
+/**
+ * A one-time sign-in token for `email`, valid for LOGIN_TOKEN_TTL_MS. Sign-up
+ * tokens also carry the password to set (see createSignUpToken).
+ */
+export function createLoginToken(email: string, passwordHash?: string): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  return mutate((data) => ({
+    data: {
+      ...data,
+      loginTokens: [
+        ...data.loginTokens.filter((entry) => entry.expiresAt > now),
+        { hash: hashToken(token), email, expiresAt: now + LOGIN_TOKEN_TTL_MS, passwordHash },
+      ],
+    },
+    result: token,
+  }));
+}
+
+/**
+ * Uses up a sign-in token and returns its user, confirming the address and
+ * creating the account on the first sign-in (see confirmUser). Undefined when
+ * the token is unknown, used or expired.
+ */
+export async function redeemLoginToken(token: string): Promise<User | undefined> {
+  const hash = hashToken(token);
+  const now = Date.now();
+  const entry = await mutate((data) => {
+    const entry = data.loginTokens.find((candidate) => candidate.hash === hash);
+    return {
+      data: { ...data, loginTokens: data.loginTokens.filter((candidate) => candidate !== entry && candidate.expiresAt > now) },
+      result: entry && entry.expiresAt > now ? entry : undefined,
+    };
+  });
+  if (!entry) return undefined;
+  return confirmUser(entry.email, entry.passwordHash);
+}
@@ -0,0 +1,34 @@
+import type { Parsed } from "@/lib/notes/validate";
+
+/** Request-body parsing for the /api/auth routes. */
+export const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function parseEmail(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const email = value.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) && email.length <= 254 ? email : undefined;
+}
+
+export function parseEmailBody(body: unknown): Parsed<{ email: string }> {
+  const email = parseEmail((body as Record<string, unknown> | null)?.email);
+  return email ? { ok: true, value: { email } } : { ok: false, error: "A valid email address is required" };
+}
+
+export function parseCredentials(body: unknown, { signUp = false } = {}): Parsed<{ email: string; password: string }> {
+  const parsed = parseEmailBody(body);
+  if (!parsed.ok) return parsed;
+
+  const password = (body as Record<string, unknown>).password;
+  if (typeof password !== "string" || !password) return { ok: false, error: "Password is required" };
+  if (signUp && password.length < MIN_PASSWORD_LENGTH) {
+    return { ok: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+  return { ok: true, value: { email: parsed.value.email, password } };
+}
+
+export function parseTokenBody(body: unknown): Parsed<{ token: string }> {
+  const token = (body as Record<string, unknown> | null)?.token;
+  return typeof token === "string" && token ? { ok: true, value: { token } } : { ok: false, error: "A sign-in token is required" };
+}
@@ -0,0 +1,34 @@
+import { mockProvider } from "./mock";
+import { openaiProvider } from "./openai";
+import type { EmbeddingProvider, EmbeddingProviderId } from "./types";
+
+export * from "./types";
+
+const providers: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+function isProviderId(id: string): id is EmbeddingProviderId {
+  return Object.hasOwn(providers, id);
+}
+
+/**
+ * The provider notes are embedded with (EMBEDDING_PROVIDER), or null when
+ * semantic search is off. Unlike transcription there is no failover: vectors
+ * from different models can't be compared. Defaults to OpenAI when its key is set.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (!configured) return process.env.OPENAI_API_KEY ? providers.openai : null;
+  if (configured === "none") return null;
+  if (!isProviderId(configured)) throw new Error(`Unknown embedding provider "${configured}"`);
+  return providers[configured];
+}
+
+/** Dot product; the same as cosine similarity for the unit vectors providers return. */
+export function similarity(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
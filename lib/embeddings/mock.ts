@@ -0,0 +1,49 @@
+import type { EmbeddingProvider } from "./types";
+
+const DIMENSIONS = 256;
+
+// FNV-1a, so the same text always lands in the same buckets.
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function features(text: string): string[] {
+  const words = text.normalize("NFKD").replace(/\p{Diacritic}/gu, "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const grams: string[] = [];
+  for (const word of words) {
+    grams.push(word);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const feature of features(text)) {
+    const h = hash(feature);
+    vector[h % DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+  }
+  const length = Math.hypot(...vector);
+  return length === 0 ? vector : vector.map((value) => value / length);
+}
+
+/**
+ * Offline stand-in: hashes words and their letter trigrams into a fixed-size
+ * vector. Deterministic and free, so notes sharing words or word stems come
+ * out close, but it knows nothing about meaning ("onboarding" won't find
+ * "new hire setup").
+ */
+export const mockProvider: EmbeddingProvider = {
+  id: "mock",
+  model: `hashed-trigrams-${DIMENSIONS}`,
+  minScore: 0.2,
+  async embed(texts) {
+    return texts.map(mockEmbedding);
+  },
+};
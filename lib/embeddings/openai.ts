@@ -0,0 +1,24 @@
+import { APIError } from "openai";
+import { gatewayStatus } from "@/lib/providers";
+import { getOpenAI } from "../openai";
+import { EmbeddingError, type EmbeddingProvider } from "./types";
+
+const model = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+
+// OpenAI embeddings come back normalised to unit length.
+export const openaiProvider: EmbeddingProvider = {
+  id: "openai",
+  model,
+  minScore: 0.3,
+  async embed(texts) {
+    try {
+      const response = await getOpenAI().embeddings.create({ model, input: texts });
+      return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    } catch (error) {
+      if (error instanceof APIError) {
+        throw new EmbeddingError(error.message, gatewayStatus(error.status), "openai");
+      }
+      throw error;
+    }
+  },
+};
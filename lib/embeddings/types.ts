@@ -0,0 +1,22 @@
+export type EmbeddingProviderId = "openai" | "mock";
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  /** Model name; stored vectors from another model are computed again. */
+  model: string;
+  /** Cosine similarity below which two texts aren't treated as related. */
+  minScore: number;
+  /** One unit-length vector per text, in the same order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingError extends Error {
+  constructor(
+    message: string,
+    readonly status = 502,
+    readonly provider?: EmbeddingProviderId,
+  ) {
+    super(message);
+    this.name = "EmbeddingError";
+  }
+}
@@ -0,0 +1,48 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Small JSON-file persistence shared by the server-side stores (notes, users,
+ * usage). Files live under NOTES_DATA_DIR (default `.data/`).
+ */
+export function dataPath(...parts: string[]): string {
+  const dir = process.env.NOTES_DATA_DIR || path.join(process.cwd(), ".data");
+  return path.join(dir, ...parts);
+}
+
+/** Parsed contents of `file`, or `fallback` when it doesn't exist yet. */
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/** Replaces `file` through a temp file + rename so readers never see half a write. */
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+}
+
+/**
+ * Runs tasks one after another. Stores push every read-modify-write through
+ * one of these so concurrent requests can't interleave and lose a write.
+ */
+export function createQueue() {
+  let tail: Promise<unknown> = Promise.resolve();
+  return {
+    run<T>(task: () => Promise<T>): Promise<T> {
+      const result = tail.then(task);
+      tail = result.catch(() => undefined);
+      return result;
+    },
+    /** Resolves once every task queued so far has finished. */
+    idle(): Promise<unknown> {
+      return tail;
+    },
+  };
+}
@@ -0,0 +1,238 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { parseTags } from "./tags";
+import type { Note } from "./types";
+import { parseNoteInput } from "./validate";
+
+/**
+ * Backups of notes as a JSON file (the full Note schema) or a ZIP of Markdown
+ * files with front-matter, and the import side that reads either back.
+ *
+ * Version history of the JSON format:
+ *   0 – a bare array of { id, content, createdAt }, i.e. a dump of the
+ *       `brutalist-notes` localStorage key from before notes synced.
+ *   1 – { app, version, exportedAt, notes } with full notes.
+ */
+export const EXPORT_VERSION = 1;
+
+const EXPORT_APP = "brutalist-notes";
+
+export interface NotesExport {
+  app: typeof EXPORT_APP;
+  version: number;
+  exportedAt: number;
+  notes: Note[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export function exportJson(notes: Note[], now = Date.now()): string {
+  const data: NotesExport = { app: EXPORT_APP, version: EXPORT_VERSION, exportedAt: now, notes };
+  return JSON.stringify(data, null, 2);
+}
+
+// Front-matter values are written as JSON, which YAML reads as-is.
+const FRONT_MATTER_KEYS = [
+  "id",
+  "title",
+  "createdAt",
+  "updatedAt",
+  "dueAt",
+  "remindAt",
+  "archivedAt",
+  "pinned",
+  "position",
+  "notebookId",
+  "language",
+  "tags",
+  "conflictOf",
+] as const;
+
+function isoDate(time: number | undefined): string | undefined {
+  return time === undefined ? undefined : new Date(time).toISOString();
+}
+
+export function noteToMarkdown(note: Note): string {
+  const fields: Record<string, unknown> = {
+    ...note,
+    createdAt: isoDate(note.createdAt),
+    updatedAt: isoDate(note.updatedAt),
+    dueAt: isoDate(note.dueAt),
+    remindAt: isoDate(note.remindAt),
+    archivedAt: isoDate(note.archivedAt),
+    tags: note.tags?.length ? note.tags : undefined,
+  };
+  const lines = FRONT_MATTER_KEYS.filter((key) => fields[key] !== undefined).map(
+    (key) => `${key}: ${JSON.stringify(fields[key])}`,
+  );
+  return `---\n${lines.join("\n")}\n---\n\n${note.content}\n`;
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48)
+    .replace(/-+$/, "");
+}
+
+/** "2026-03-01-groceries.md", unique within `used`. */
+function markdownFilename(note: Note, used: Set<string>): string {
+  const date = new Date(note.createdAt).toISOString().slice(0, 10);
+  const firstLine = note.content.split("\n").find((line) => line.trim()) ?? "";
+  const slug = slugify(note.title ?? firstLine.replace(/^[#>*\-\s]+/, "")) || "note";
+  let name = `${date}-${slug}.md`;
+  for (let i = 2; used.has(name); i++) name = `${date}-${slug}-${i}.md`;
+  used.add(name);
+  return name;
+}
+
+/** A ZIP with one Markdown file per note. */
+export function exportMarkdownZip(notes: Note[]): Uint8Array<ArrayBuffer> {
+  const used = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+  for (const note of notes) {
+    files[`notes/${markdownFilename(note, used)}`] = strToU8(noteToMarkdown(note));
+  }
+  // fflate always allocates a plain ArrayBuffer, so the bytes can go in a Blob.
+  return zipSync(files) as Uint8Array<ArrayBuffer>;
+}
+
+function parseFrontMatter(text: string): { fields: Record<string, unknown>; body: string } {
+  const match = text.replace(/^\uFEFF/, "").match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, unknown> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^([A-Za-z]\w*):\s*(.*)$/);
+    if (!pair) continue;
+    try {
+      fields[pair[1]] = JSON.parse(pair[2]);
+    } catch {
+      // Hand-written front-matter: take the value as plain text.
+      fields[pair[1]] = pair[2].replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return { fields, body: match[2].replace(/^\r?\n/, "").replace(/\r?\n$/, "") };
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const time = Date.parse(value);
+    if (!Number.isNaN(time)) return time;
+  }
+  return undefined;
+}
+
+/**
+ * Brings a note from any export version up to the current schema. Returns
+ * undefined when it has no usable content. The revision is reset: imported
+ * notes are created afresh on the server.
+ */
+export function migrateNote(raw: unknown, now = Date.now()): Note | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const fields = raw as Record<string, unknown>;
+  // Version 0 ids came from Date.now() in some builds and may be numbers.
+  const id = typeof fields.id === "number" ? String(fields.id) : fields.id;
+  const createdAt = toTimestamp(fields.createdAt) ?? now;
+
+  const parsed = parseNoteInput({
+    ...fields,
+    id,
+    createdAt,
+    dueAt: toTimestamp(fields.dueAt),
+    remindAt: toTimestamp(fields.remindAt),
+    archivedAt: toTimestamp(fields.archivedAt),
+  });
+  if (!parsed.ok) return undefined;
+  const { writerId: _writerId, ...input } = parsed.value;
+
+  return {
+    ...input,
+    id: input.id || crypto.randomUUID(),
+    createdAt,
+    updatedAt: toTimestamp(fields.updatedAt) ?? createdAt,
+    revision: 0,
+    tags: parseTags(input.content),
+  };
+}
+
+function readJson(text: string): unknown[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("File is not valid JSON");
+  }
+  if (Array.isArray(data)) return data;
+
+  const envelope = data as Partial<NotesExport> | null;
+  if (!envelope || typeof envelope !== "object" || !Array.isArray(envelope.notes)) {
+    throw new ImportError("File is not a notes export");
+  }
+  if (typeof envelope.version === "number" && envelope.version > EXPORT_VERSION) {
+    throw new ImportError("Export is from a newer version of the app");
+  }
+  return envelope.notes;
+}
+
+function readMarkdown(text: string): unknown {
+  const { fields, body } = parseFrontMatter(text);
+  return { ...fields, content: body };
+}
+
+function readEntries(name: string, data: Uint8Array): unknown[] {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".json")) return readJson(strFromU8(data));
+  if (lower.endsWith(".md") || lower.endsWith(".markdown") || lower.endsWith(".txt")) {
+    return [readMarkdown(strFromU8(data))];
+  }
+  if (lower.endsWith(".zip")) {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(data);
+    } catch {
+      throw new ImportError("File is not a valid ZIP archive");
+    }
+    return Object.entries(files)
+      .filter(([path]) => !path.endsWith("/") && !path.split("/").some((part) => part.startsWith(".")))
+      .flatMap(([path, bytes]) => (/\.(json|md|markdown|txt)$/i.test(path) ? readEntries(path, bytes) : []));
+  }
+  throw new ImportError(`Unsupported file type: ${name}`);
+}
+
+export interface ImportResult {
+  notes: Note[];
+  /** Entries that were not valid notes. */
+  invalid: number;
+}
+
+/**
+ * Reads a .json export, a .md note or a .zip of either. Notes repeated within
+ * the file are kept once (the most recently updated copy wins).
+ */
+export function readImport(name: string, data: Uint8Array): ImportResult {
+  const entries = readEntries(name, data);
+  const byId = new Map<string, Note>();
+  let invalid = 0;
+
+  for (const entry of entries) {
+    const note = migrateNote(entry);
+    if (!note) {
+      invalid++;
+      continue;
+    }
+    const seen = byId.get(note.id);
+    if (!seen || note.updatedAt > seen.updatedAt) byId.set(note.id, note);
+  }
+  if (byId.size === 0 && entries.length > 0) throw new ImportError("No valid notes found in file");
+  return { notes: [...byId.values()], invalid };
+}
@@ -0,0 +1,31 @@
+// "- [ ] item", "* [x] item", "1. [ ] item", with any indentation.
+const TASK_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/;
+
+export function isTaskChecked(content: string, line: number): boolean | undefined {
+  const match = content.split("\n")[line - 1]?.match(TASK_PATTERN);
+  return match ? match[2] !== " " : undefined;
+}
+
+/** Flips the checkbox on a 1-based source line; other lines are untouched. */
+export function toggleTask(content: string, line: number): string {
+  const lines = content.split("\n");
+  const current = lines[line - 1];
+  const match = current?.match(TASK_PATTERN);
+  if (!match) return content;
+
+  const checked = match[2] !== " ";
+  lines[line - 1] = current.replace(TASK_PATTERN, `${match[1]}[${checked ? " " : "x"}]`);
+  return lines.join("\n");
+}
+
+export function taskProgress(content: string): { done: number; total: number } {
+  let done = 0;
+  let total = 0;
+  for (const line of content.split("\n")) {
+    const match = line.match(TASK_PATTERN);
+    if (!match) continue;
+    total++;
+    if (match[2] !== " ") done++;
+  }
+  return { done, total };
+}
@@ -0,0 +1,123 @@
+import type { Note, Notebook, NoteInput, NoteMatch, NotePatch, NoteRevision, RevisionSource } from "./types";
+
+/** A non-2xx response from /api/notes or /api/notebooks. Network failures surface as TypeError instead. */
+export class NotesApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly note?: Note,
+  ) {
+    super(message);
+    this.name = "NotesApiError";
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  // A proxy's error page may be HTML or empty; the status still says what happened.
+  const data = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new NotesApiError(data?.error || `Request failed with status ${response.status}`, response.status, data?.note);
+  }
+  return data as T;
+}
+
+export async function fetchNotes(): Promise<Note[]> {
+  const data = await request<{ notes: Note[] }>("/api/notes");
+  return data.notes;
+}
+
+export async function postNote(input: NoteInput): Promise<Note> {
+  const data = await request<{ note: Note }>("/api/notes", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return data.note;
+}
+
+export async function patchNote(
+  id: string,
+  patch: NotePatch,
+  options: { baseRevision?: number; writerId?: string; source?: RevisionSource } = {},
+): Promise<Note> {
+  const data = await request<{ note: Note }>(`/api/notes/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ ...patch, ...options }),
+  });
+  return data.note;
+}
+
+/** Moves a note to the trash. */
+export async function removeNote(id: string, baseRevision?: number, writerId?: string): Promise<void> {
+  const query = new URLSearchParams();
+  if (baseRevision !== undefined) query.set("baseRevision", String(baseRevision));
+  if (writerId) query.set("writerId", writerId);
+  const search = query.toString();
+  await request<null>(`/api/notes/${encodeURIComponent(id)}${search ? `?${search}` : ""}`, { method: "DELETE" });
+}
+
+/** Saved versions of a note, newest first. */
+export async function fetchHistory(id: string): Promise<NoteRevision[]> {
+  const data = await request<{ revisions: NoteRevision[] }>(`/api/notes/${encodeURIComponent(id)}/history`);
+  return data.revisions;
+}
+
+export async function fetchTrash(): Promise<{ notes: Note[]; retentionDays: number }> {
+  return request("/api/notes/trash");
+}
+
+export async function restoreFromTrash(id: string): Promise<Note> {
+  const data = await request<{ note: Note }>(`/api/notes/trash/${encodeURIComponent(id)}`, { method: "POST" });
+  return data.note;
+}
+
+export async function purgeFromTrash(id: string): Promise<void> {
+  await request<null>(`/api/notes/trash/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export async function emptyTrash(): Promise<void> {
+  await request<{ purged: number }>("/api/notes/trash", { method: "DELETE" });
+}
+
+/** Notes closest in meaning to `query`, best first. */
+export async function askNotes(query: string): Promise<NoteMatch[]> {
+  const data = await request<{ matches: NoteMatch[] }>("/api/notes/ask", {
+    method: "POST",
+    body: JSON.stringify({ query }),
+  });
+  return data.matches;
+}
+
+export async function fetchRelated(id: string): Promise<NoteMatch[]> {
+  const data = await request<{ matches: NoteMatch[] }>(`/api/notes/${encodeURIComponent(id)}/related`);
+  return data.matches;
+}
+
+export async function fetchNotebooks(): Promise<Notebook[]> {
+  const data = await request<{ notebooks: Notebook[] }>("/api/notebooks");
+  return data.notebooks;
+}
+
+export async function createNotebook(name: string): Promise<Notebook> {
+  const data = await request<{ notebook: Notebook }>("/api/notebooks", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return data.notebook;
+}
+
+export async function renameNotebook(id: string, name: string): Promise<Notebook> {
+  const data = await request<{ notebook: Notebook }>(`/api/notebooks/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ name }),
+  });
+  return data.notebook;
+}
+
+/** Deletes a notebook; the server unfiles its notes. */
+export async function deleteNotebook(id: string): Promise<void> {
+  await request<null>(`/api/notebooks/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
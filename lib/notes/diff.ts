@@ -0,0 +1,81 @@
+/** Word-level differences between two versions of a note, for the history view. */
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Past this many word pairs the diff works on whole lines instead, and past it
+// again on lines it just shows the changed middle as removed then added.
+const MAX_CELLS = 250_000;
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return (byLine ? text.match(/[^\n]*\n|[^\n]+/g) : text.match(/\s+|\S+/g)) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+/** Longest-common-subsequence diff of two token lists. */
+function diffTokens(a: string[], b: string[], parts: DiffPart[]) {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, "same", a[i++]);
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(parts, "removed", a[i++]);
+    } else {
+      push(parts, "added", b[j++]);
+    }
+  }
+  push(parts, "removed", a.slice(i).join(""));
+  push(parts, "added", b.slice(j).join(""));
+}
+
+export function diffText(before: string, after: string): DiffPart[] {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+  if (a.length * b.length > MAX_CELLS) {
+    a = tokenize(before, true);
+    b = tokenize(after, true);
+  }
+
+  // Edits are usually local, so the shared start and end are set aside first.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, "same", a.slice(0, start).join(""));
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  if (middleA.length * middleB.length > MAX_CELLS) {
+    push(parts, "removed", middleA.join(""));
+    push(parts, "added", middleB.join(""));
+  } else {
+    diffTokens(middleA, middleB, parts);
+  }
+  push(parts, "same", a.slice(endA).join(""));
+  return parts;
+}
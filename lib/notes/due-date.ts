@@ -0,0 +1,254 @@
+import type { Note } from "./types";
+
+/**
+ * Reads when a note is due from its wording, e.g. "call the vendor tomorrow at
+ * 5" or "dentist on March 3rd at 10:30am". English only. Relative words are
+ * read against `now`, which should be when the text was written.
+ */
+
+export interface DueDate {
+  dueAt: number;
+  /** The words the date was read from, as written. */
+  text: string;
+}
+
+// Used when a day is given without a time.
+const DEFAULT_HOUR = 9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const MONTH = String.raw`(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec)\.?`;
+const ORDINAL = String.raw`(\d{1,2})(?:st|nd|rd|th)?`;
+const YEAR = String.raw`(?:,?\s+(\d{4}))?`;
+const COUNT = String.raw`(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty|forty-five)`;
+const MERIDIEM = String.raw`(a\.?m\.?|p\.?m\.?)`;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  "forty-five": 45,
+};
+
+// Hours for a part of the day said without a time ("tomorrow evening").
+const PERIOD_HOURS = { morning: 9, afternoon: 15, evening: 18, night: 20, tonight: 20 };
+
+type Period = keyof typeof PERIOD_HOURS;
+
+interface Found {
+  index: number;
+  text: string;
+}
+
+interface DayMatch extends Found {
+  /** Midnight of the day meant. */
+  day: Date;
+  period?: Period;
+}
+
+interface TimeMatch extends Found {
+  hour: number;
+  minute: number;
+  /** Whether am/pm (or noon/midnight) pinned the hour down. */
+  exact: boolean;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function count(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+}
+
+function monthIndex(word: string): number {
+  const prefix = word.toLowerCase().replace(/\.$/, "").slice(0, 3);
+  return MONTHS.findIndex((month) => month.startsWith(prefix));
+}
+
+/**
+ * A calendar date, or undefined if there is no such day. Without a year the
+ * next one to come is meant.
+ */
+function calendarDay(today: Date, month: number, date: number, year?: string): Date | undefined {
+  let day = new Date(year ? Number(year) : today.getFullYear(), month, date);
+  if (day.getMonth() !== month) return undefined;
+  if (!year && day < today) day = new Date(today.getFullYear() + 1, month, date);
+  return day;
+}
+
+function found(match: RegExpExecArray): Found {
+  return { index: match.index, text: match[0].trim() };
+}
+
+function findDay(text: string, today: Date): DayMatch | undefined {
+  const matches: DayMatch[] = [];
+  const add = (pattern: RegExp, toDay: (match: RegExpExecArray) => Omit<DayMatch, keyof Found> | undefined) => {
+    const match = pattern.exec(text);
+    const day = match && toDay(match);
+    if (match && day) matches.push({ ...found(match), ...day });
+  };
+
+  add(/\b(?:the\s+)?day\s+after\s+tomorrow\b/i, () => ({ day: addDays(today, 2) }));
+  add(/\b(today|tonight|tomorrow|tmrw)\b(?:\s+(morning|afternoon|evening|night))?/i, (match) => {
+    const word = match[1].toLowerCase();
+    const period = (match[2]?.toLowerCase() ?? (word === "tonight" ? "tonight" : undefined)) as Period | undefined;
+    return { day: addDays(today, word === "tomorrow" || word === "tmrw" ? 1 : 0), period };
+  });
+  add(/\bthis\s+(morning|afternoon|evening)\b/i, (match) => ({ day: today, period: match[1].toLowerCase() as Period }));
+  add(
+    /\b(?:(next|this|on|coming)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b(?:\s+(morning|afternoon|evening|night))?/i,
+    (match) => {
+      let days = (WEEKDAYS.indexOf(match[2].toLowerCase()) - today.getDay() + 7) % 7;
+      if (days === 0 && match[1]?.toLowerCase() !== "this") days = 7;
+      return { day: addDays(today, days), period: match[3]?.toLowerCase() as Period | undefined };
+    },
+  );
+  add(/\bnext\s+(week|month)\b/i, (match) =>
+    match[1].toLowerCase() === "week"
+      ? { day: addDays(today, 7) }
+      : { day: new Date(today.getFullYear(), today.getMonth() + 1, today.getDate()) },
+  );
+  add(new RegExp(String.raw`\bin\s+${COUNT}\s+(days?|weeks?|months?)\b`, "i"), (match) => {
+    const n = count(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith("month")) return { day: new Date(today.getFullYear(), today.getMonth() + n, today.getDate()) };
+    return { day: addDays(today, unit.startsWith("week") ? n * 7 : n) };
+  });
+  add(new RegExp(String.raw`\b(?:on\s+)?(?:the\s+)?${ORDINAL}\s+(?:of\s+)?${MONTH}${YEAR}(?!\w)`, "i"), (match) => {
+    const day = calendarDay(today, monthIndex(match[2]), Number(match[1]), match[3]);
+    return day && { day };
+  });
+  add(new RegExp(String.raw`\b(?:on\s+)?${MONTH}\s+(?:the\s+)?${ORDINAL}(?!\d)${YEAR}(?!\w)`, "i"), (match) => {
+    const day = calendarDay(today, monthIndex(match[1]), Number(match[2]), match[3]);
+    return day && { day };
+  });
+  add(/\b(\d{4})-(\d{2})-(\d{2})\b/, (match) => {
+    const day = calendarDay(today, Number(match[2]) - 1, Number(match[3]), match[1]);
+    return day && { day };
+  });
+
+  // The first mention wins; a longer one at the same place ("day after tomorrow") over its tail.
+  return matches.sort((a, b) => a.index - b.index || b.text.length - a.text.length)[0];
+}
+
+function findTime(text: string): TimeMatch | undefined {
+  const matches: TimeMatch[] = [];
+  const add = (pattern: RegExp, toTime: (match: RegExpExecArray) => Omit<TimeMatch, keyof Found> | undefined) => {
+    const match = pattern.exec(text);
+    const time = match && toTime(match);
+    if (match && time && time.hour < 24 && time.minute < 60) matches.push({ ...found(match), ...time });
+  };
+  const clock = (hour: string, minute: string | undefined, meridiem: string | undefined) => {
+    const h = Number(hour);
+    if (!meridiem) return { hour: h, minute: Number(minute ?? 0), exact: h === 0 || h > 12 };
+    if (h < 1 || h > 12) return undefined;
+    const pm = meridiem.toLowerCase().startsWith("p");
+    return { hour: (h % 12) + (pm ? 12 : 0), minute: Number(minute ?? 0), exact: true };
+  };
+
+  add(/\b(?:at\s+|by\s+)?(noon|midday|midnight)\b/i, (match) => ({
+    hour: match[1].toLowerCase() === "midnight" ? 0 : 12,
+    minute: 0,
+    exact: true,
+  }));
+  add(new RegExp(String.raw`(?:\b(?:at|by)\s+|@\s*)(\d{1,2})(?:[:.](\d{2}))?(?!\d)\s*${MERIDIEM}?(?!\w)`, "i"), (match) =>
+    clock(match[1], match[2], match[3]),
+  );
+  add(new RegExp(String.raw`\b(\d{1,2})(?:[:.](\d{2}))?\s*${MERIDIEM}(?!\w)`, "i"), (match) =>
+    clock(match[1], match[2], match[3]),
+  );
+  add(/\b(\d{1,2}):(\d{2})\b/, (match) => clock(match[1], match[2], undefined));
+  add(/\b(\d{1,2})\s*o'?clock\b/i, (match) => clock(match[1], undefined, undefined));
+
+  return matches.sort((a, b) => a.index - b.index || b.text.length - a.text.length)[0];
+}
+
+// "at 5" means 5pm unless the morning was mentioned; nobody schedules a call for 5am.
+function hourOf(time: TimeMatch, period: Period | undefined): number {
+  if (time.exact || time.hour === 12) return time.hour;
+  if (period && period !== "morning") return time.hour < 12 ? time.hour + 12 : time.hour;
+  if (period === "morning") return time.hour;
+  return time.hour >= 1 && time.hour <= 7 ? time.hour + 12 : time.hour;
+}
+
+/** The first date or time mentioned in `text`, if any. */
+export function parseDueDate(text: string, now: Date = new Date()): DueDate | undefined {
+  // "in 20 minutes" is a moment, not a day, and says all there is to say.
+  const relative = new RegExp(String.raw`\bin\s+(?:(half\s+an)\s+hour|${COUNT}\s+(minutes?|mins?|hours?|hrs?))\b`, "i").exec(
+    text,
+  );
+  if (relative) {
+    const minutes = relative[1] ? 30 : count(relative[2]) * (relative[3].toLowerCase().startsWith("h") ? 60 : 1);
+    return { dueAt: now.getTime() + minutes * 60 * 1000, text: relative[0].trim() };
+  }
+
+  const today = startOfDay(now);
+  const day = findDay(text, today);
+  const time = findTime(text);
+  if (!day && !time) return undefined;
+
+  const phrase = [day, time]
+    .filter((match): match is DayMatch | TimeMatch => match !== undefined)
+    .sort((a, b) => a.index - b.index)
+    .map((match) => match.text)
+    .join(" ");
+
+  const at = new Date(day?.day ?? today);
+  if (time) at.setHours(hourOf(time, day?.period), time.minute);
+  else at.setHours(day?.period ? PERIOD_HOURS[day.period] : DEFAULT_HOUR);
+  // A time on its own is the next time the clock shows it.
+  if (!day && at.getTime() <= now.getTime()) at.setDate(at.getDate() + 1);
+  return { dueAt: at.getTime(), text: phrase };
+}
+
+/** Notes with a due date, soonest first. */
+export function byDueDate(notes: Note[]): Note[] {
+  return notes.filter((note) => note.dueAt !== undefined).sort((a, b) => a.dueAt! - b.dueAt!);
+}
+
+/** "Today 5:00 PM", "Fri 9:00 AM", "Mar 3, 10:30 AM". */
+export function formatDue(dueAt: number, now: number = Date.now()): string {
+  const due = new Date(dueAt);
+  const days = Math.round((startOfDay(due).getTime() - startOfDay(new Date(now)).getTime()) / DAY_MS);
+  const time = due.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+  if (days === 0) return `Today ${time}`;
+  if (days === 1) return `Tomorrow ${time}`;
+  if (days === -1) return `Yesterday ${time}`;
+  if (days > 1 && days < 7) return `${due.toLocaleDateString([], { weekday: "short" })} ${time}`;
+  const sameYear = due.getFullYear() === new Date(now).getFullYear();
+  return `${due.toLocaleDateString([], { month: "short", day: "numeric", year: sameYear ? undefined : "numeric" })}, ${time}`;
+}
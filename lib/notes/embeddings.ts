@@ -0,0 +1,152 @@
+import { createHash } from "node:crypto";
+import { createQueue, dataPath, readJsonFile, writeJsonFile } from "@/lib/json-file";
+import { EmbeddingError, getEmbeddingProvider, similarity, type EmbeddingProvider } from "@/lib/embeddings";
+import { listNotes } from "./store";
+import type { Note, NoteMatch } from "./types";
+
+// Roughly the most text-embedding-3-small takes in one input.
+const MAX_TEXT_LENGTH = 8000;
+const BATCH_SIZE = 100;
+
+interface StoredEmbedding {
+  /** Provider and model that made the vector. */
+  model: string;
+  /** Hash of the text it was made from, so edits are noticed. */
+  hash: string;
+  vector: number[];
+}
+
+/**
+ * One vector per note, in a file per user next to the notes themselves. A
+ * note is embedded after each save, and any note missing a current vector
+ * (imported, written before this existed, or embedded by another model) is
+ * caught up the next time its owner searches.
+ */
+function dataFile(userId: string): string {
+  return dataPath("embeddings", `${encodeURIComponent(userId)}.json`);
+}
+
+type Embeddings = Record<string, StoredEmbedding>;
+
+const queue = createQueue();
+
+function embeddingText(note: Note): string {
+  return `${note.title ?? ""}\n${note.content}`.trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+function modelKey(provider: EmbeddingProvider): string {
+  return `${provider.id}:${provider.model}`;
+}
+
+function textHash(text: string): string {
+  return createHash("sha256").update(text).digest("base64url");
+}
+
+function requireProvider(): EmbeddingProvider {
+  const provider = getEmbeddingProvider();
+  if (!provider) throw new EmbeddingError("Semantic search is not configured", 503);
+  return provider;
+}
+
+/**
+ * Vectors for `notes`, embedding those without a current one. Entries for
+ * notes that are gone (or in the trash) are dropped at the same time.
+ */
+async function embeddingsFor(userId: string, provider: EmbeddingProvider, notes: Note[]): Promise<Map<string, number[]>> {
+  const model = modelKey(provider);
+  const stored = await readJsonFile<Embeddings>(dataFile(userId), {});
+  const stale = notes.filter((note) => {
+    const entry = stored[note.id];
+    return !entry || entry.model !== model || entry.hash !== textHash(embeddingText(note));
+  });
+
+  const fresh: Embeddings = {};
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    const texts = batch.map(embeddingText);
+    const vectors = await provider.embed(texts);
+    batch.forEach((note, j) => {
+      fresh[note.id] = { model, hash: textHash(texts[j]), vector: vectors[j] };
+    });
+  }
+
+  const ids = new Set(notes.map((note) => note.id));
+  const pruned = Object.keys(stored).some((id) => !ids.has(id));
+  if (stale.length > 0 || pruned) {
+    await queue.run(async () => {
+      const current = await readJsonFile<Embeddings>(dataFile(userId), {});
+      const next: Embeddings = {};
+      for (const id of ids) {
+        const entry = fresh[id] ?? current[id];
+        if (entry) next[id] = entry;
+      }
+      await writeJsonFile(dataFile(userId), next);
+    });
+  }
+
+  const vectors = new Map<string, number[]>();
+  for (const note of notes) {
+    const entry = fresh[note.id] ?? stored[note.id];
+    if (entry) vectors.set(note.id, entry.vector);
+  }
+  return vectors;
+}
+
+/**
+ * Embeds a note that was just saved, unless its text is unchanged. Does
+ * nothing when semantic search is off. Never throws: a failure is logged and
+ * the note is caught up at the next search.
+ */
+export async function indexNote(userId: string, note: Note): Promise<void> {
+  try {
+    const provider = getEmbeddingProvider();
+    const text = embeddingText(note);
+    if (!provider || !text) return;
+
+    const model = modelKey(provider);
+    const hash = textHash(text);
+    const current = (await readJsonFile<Embeddings>(dataFile(userId), {}))[note.id];
+    if (current?.model === model && current.hash === hash) return;
+
+    const [vector] = await provider.embed([text]);
+    await queue.run(async () => {
+      const stored = await readJsonFile<Embeddings>(dataFile(userId), {});
+      stored[note.id] = { model, hash, vector };
+      await writeJsonFile(dataFile(userId), stored);
+    });
+  } catch (error) {
+    console.error("Failed to embed note:", error);
+  }
+}
+
+function rank(vectors: Map<string, number[]>, target: number[], minScore: number, limit: number, skip?: string): NoteMatch[] {
+  const matches: NoteMatch[] = [];
+  for (const [id, vector] of vectors) {
+    if (id === skip) continue;
+    const score = similarity(target, vector);
+    if (score >= minScore) matches.push({ id, score });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/** Notes closest in meaning to `query`, best first. */
+export async function askNotes(userId: string, query: string, limit = 10): Promise<NoteMatch[]> {
+  const provider = requireProvider();
+  const notes = (await listNotes(userId)).filter((note) => embeddingText(note));
+  const [vectors, [target]] = await Promise.all([
+    embeddingsFor(userId, provider, notes),
+    provider.embed([query.slice(0, MAX_TEXT_LENGTH)]),
+  ]);
+  return rank(vectors, target, provider.minScore, limit);
+}
+
+/** Other notes closest in meaning to note `id`, or undefined when there's no such note. */
+export async function relatedNotes(userId: string, id: string, limit = 3): Promise<NoteMatch[] | undefined> {
+  const provider = requireProvider();
+  const notes = await listNotes(userId);
+  if (!notes.some((note) => note.id === id)) return undefined;
+
+  const vectors = await embeddingsFor(userId, provider, notes.filter((note) => embeddingText(note)));
+  const target = vectors.get(id);
+  return target ? rank(vectors, target, provider.minScore, limit, id) : [];
+}
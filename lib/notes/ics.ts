@@ -0,0 +1,73 @@
+import type { Note } from "./types";
+
+/**
+ * Notes with a due date as an iCalendar file (RFC 5545) that calendar apps can
+ * import: one event per note at its due time, with an alarm for its reminder.
+ */
+
+// Events need an end; a due item takes up a short slot.
+const EVENT_MINUTES = 30;
+const PRODUCT_ID = "-//Brutalist Notes//Reminders//EN";
+
+// 20260305T170000Z
+function icsTime(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 bytes are folded onto continuation lines starting with a space.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function summaryOf(note: Note): string {
+  const firstLine = note.content.split("\n").find((line) => line.trim()) ?? "";
+  return note.title || firstLine.replace(/^[#>*\-\s]+|\[[ xX]\]\s*/g, "").trim() || "Note";
+}
+
+function noteEvent(note: Note & { dueAt: number }, now: number): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${note.id}@brutalist-notes`,
+    `DTSTAMP:${icsTime(now)}`,
+    `DTSTART:${icsTime(note.dueAt)}`,
+    `DTEND:${icsTime(note.dueAt + EVENT_MINUTES * 60 * 1000)}`,
+    `SUMMARY:${escapeText(summaryOf(note))}`,
+    `DESCRIPTION:${escapeText(note.content)}`,
+  ];
+  if (note.remindAt !== undefined) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(summaryOf(note))}`,
+      `TRIGGER;VALUE=DATE-TIME:${icsTime(note.remindAt)}`,
+      "END:VALARM",
+    );
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/** An .ics calendar of the notes that have a due date; the rest are left out. */
+export function exportIcs(notes: Note[], now = Date.now()): string {
+  const events = notes
+    .filter((note): note is Note & { dueAt: number } => note.dueAt !== undefined)
+    .flatMap((note) => noteEvent(note, now));
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN", ...events, "END:VCALENDAR"];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
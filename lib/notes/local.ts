@@ -0,0 +1,46 @@
+import { applyPatch } from "./patch";
+import { withTags } from "./tags";
+import type { Note, NotePatch, NoteDetails } from "./types";
+
+/**
+ * The changes useNotes makes to its list straight away, before the server has
+ * seen them (see lib/notes/sync for how they are sent). Pure, so they can be
+ * tested without React or a server.
+ */
+
+/**
+ * A note as it exists before its first sync: revision 0, ours alone. A note
+ * made from something with an id of its own (a queued recording) takes that
+ * id, so the server creates it only once however many times it is sent.
+ */
+export function draftNote(content: string, details: NoteDetails = {}, now = Date.now(), id: string = crypto.randomUUID()): Note {
+  return withTags({ ...details, id, content, createdAt: now, updatedAt: now, revision: 0 });
+}
+
+/** Whether `patch` would change anything on `note`. */
+export function changesNote(note: Note, patch: NotePatch): boolean {
+  return (Object.keys(patch) as (keyof NotePatch)[]).some((key) => patch[key] !== note[key]);
+}
+
+export function patchNoteIn(notes: Note[], id: string, patch: NotePatch, editedAt: number): Note[] {
+  return notes.map((note) => {
+    if (note.id !== id) return note;
+    const patched = applyPatch(note, patch);
+    const contentUpdatedAt = patched.content === note.content ? note.contentUpdatedAt : editedAt;
+    return { ...patched, updatedAt: editedAt, contentUpdatedAt };
+  });
+}
+
+/**
+ * Notes from `incoming` whose id isn't in `notes` yet, so importing the same
+ * backup twice adds nothing.
+ */
+export function newImports(notes: Note[], incoming: Note[]): Note[] {
+  const known = new Set(notes.map((note) => note.id));
+  return incoming.filter((note) => !known.has(note.id));
+}
+
+/** Adds notes to the list, newest first. */
+export function mergeNotes(notes: Note[], added: Note[]): Note[] {
+  return [...added, ...notes].sort((a, b) => b.createdAt - a.createdAt);
+}
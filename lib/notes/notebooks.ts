@@ -0,0 +1,68 @@
+import { randomUUID } from "node:crypto";
+import { createQueue, dataPath, readJsonFile, writeJsonFile } from "@/lib/json-file";
+import { clearNotebook } from "./store";
+import type { Notebook } from "./types";
+
+export type NotebookResult =
+  | { status: "ok"; notebook: Notebook }
+  | { status: "duplicate" }
+  | { status: "missing" };
+
+/**
+ * Notebooks, in a file per user next to the notes. Notes refer to a notebook
+ * by id; deleting one leaves its notes unfiled rather than deleting them.
+ */
+function dataFile(userId: string): string {
+  return dataPath("notebooks", `${encodeURIComponent(userId)}.json`);
+}
+
+const queue = createQueue();
+
+async function readNotebooks(userId: string): Promise<Notebook[]> {
+  const parsed = await readJsonFile<Notebook[]>(dataFile(userId), []);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+// Names are compared case-insensitively, so "Work" and "work" can't both exist.
+function taken(notebooks: Notebook[], name: string, exceptId?: string): boolean {
+  return notebooks.some((notebook) => notebook.id !== exceptId && notebook.name.toLowerCase() === name.toLowerCase());
+}
+
+/** Notebooks in the order they were made. */
+export async function listNotebooks(userId: string): Promise<Notebook[]> {
+  await queue.idle();
+  return readNotebooks(userId);
+}
+
+export function createNotebook(userId: string, name: string): Promise<NotebookResult> {
+  return queue.run(async () => {
+    const notebooks = await readNotebooks(userId);
+    if (taken(notebooks, name)) return { status: "duplicate" };
+    const notebook: Notebook = { id: randomUUID(), name, createdAt: Date.now() };
+    await writeJsonFile(dataFile(userId), [...notebooks, notebook]);
+    return { status: "ok", notebook };
+  });
+}
+
+export function renameNotebook(userId: string, id: string, name: string): Promise<NotebookResult> {
+  return queue.run(async () => {
+    const notebooks = await readNotebooks(userId);
+    const current = notebooks.find((notebook) => notebook.id === id);
+    if (!current) return { status: "missing" };
+    if (taken(notebooks, name, id)) return { status: "duplicate" };
+    const notebook = { ...current, name };
+    await writeJsonFile(dataFile(userId), notebooks.map((other) => (other === current ? notebook : other)));
+    return { status: "ok", notebook };
+  });
+}
+
+/** Deletes a notebook and unfiles its notes. False if there was no such notebook. */
+export function deleteNotebook(userId: string, id: string): Promise<boolean> {
+  return queue.run(async () => {
+    const notebooks = await readNotebooks(userId);
+    if (!notebooks.some((notebook) => notebook.id === id)) return false;
+    await writeJsonFile(dataFile(userId), notebooks.filter((notebook) => notebook.id !== id));
+    await clearNotebook(userId, id);
+    return true;
+  });
+}
@@ -0,0 +1,20 @@
+import type { Note } from "./types";
+
+/**
+ * Manual ordering. A note's place is its `position`, lowest first; notes never
+ * moved by hand fall back to their creation time, newest first, so new notes
+ * start at the top. A drag gives the moved note a position between its new
+ * neighbours, so only that note is written.
+ */
+
+export function manualKey(note: Pick<Note, "position" | "createdAt">): number {
+  return note.position ?? -note.createdAt;
+}
+
+/** A position that puts a note between `before` and `after` (either may be missing at an end). */
+export function positionBetween(before: Note | undefined, after: Note | undefined): number {
+  if (before && after) return (manualKey(before) + manualKey(after)) / 2;
+  if (before) return manualKey(before) + 1;
+  if (after) return manualKey(after) - 1;
+  return 0;
+}
@@ -0,0 +1,17 @@
+import { withTags } from "./tags";
+import type { Note, NotePatch } from "./types";
+
+type ClearableField = Exclude<keyof NotePatch, "content">;
+
+function setField<K extends ClearableField>(note: Note, key: K, value: Note[K] | null) {
+  if (value === null) delete note[key];
+  else if (value !== undefined) note[key] = value;
+}
+
+/** Applies a patch the way the server does: `null` removes a field, tags follow content. */
+export function applyPatch(note: Note, patch: NotePatch): Note {
+  const { content = note.content, ...fields } = patch;
+  const next: Note = { ...note, content };
+  for (const key of Object.keys(fields) as ClearableField[]) setField(next, key, fields[key]);
+  return withTags(next);
+}
@@ -0,0 +1,132 @@
+import { manualKey } from "./order";
+import type { Note } from "./types";
+
+export type NoteSort = "created-desc" | "created-asc" | "updated-desc" | "updated-asc" | "manual";
+
+export const NOTE_SORTS: { value: NoteSort; label: string }[] = [
+  { value: "created-desc", label: "Newest" },
+  { value: "created-asc", label: "Oldest" },
+  { value: "updated-desc", label: "Recently edited" },
+  { value: "updated-asc", label: "Least recently edited" },
+  { value: "manual", label: "Manual" },
+];
+
+/** Lower-cases and strips diacritics so "Café" matches "cafe". */
+function normalize(text: string): string {
+  return text.normalize("NFKD").replace(/\p{Diacritic}/gu, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalize(text).match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+interface IndexedNote {
+  updatedAt: number;
+  tokens: Set<string>;
+}
+
+/**
+ * Inverted index over note text. `update` only re-tokenises notes whose
+ * updatedAt changed, and prefix lookups binary-search a sorted term list, so
+ * typing in the search box stays cheap with thousands of notes.
+ */
+export class NoteSearchIndex {
+  private notes = new Map<string, IndexedNote>();
+  private postings = new Map<string, Set<string>>();
+  private sortedTerms: string[] | null = null;
+
+  update(notes: Note[]) {
+    const seen = new Set<string>();
+    for (const note of notes) {
+      seen.add(note.id);
+      const indexed = this.notes.get(note.id);
+      if (indexed && indexed.updatedAt === note.updatedAt) continue;
+      if (indexed) this.remove(note.id);
+      this.add(note);
+    }
+    for (const id of [...this.notes.keys()]) {
+      if (!seen.has(id)) this.remove(id);
+    }
+  }
+
+  /** Ids of notes containing every query term (the last one as a prefix). */
+  search(query: string): Set<string> | null {
+    const terms = tokenize(query);
+    if (terms.length === 0) return null;
+
+    const matches = terms
+      .map((term, i) => (i === terms.length - 1 ? this.lookupPrefix(term) : (this.postings.get(term) ?? new Set<string>())))
+      .sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = matches;
+    return new Set([...smallest].filter((id) => rest.every((ids) => ids.has(id))));
+  }
+
+  private add(note: Note) {
+    const tokens = new Set(tokenize(`${note.title ?? ""} ${note.content}`));
+    this.notes.set(note.id, { updatedAt: note.updatedAt, tokens });
+    for (const token of tokens) {
+      let ids = this.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(token, ids);
+        this.sortedTerms = null;
+      }
+      ids.add(note.id);
+    }
+  }
+
+  private remove(id: string) {
+    const indexed = this.notes.get(id);
+    if (!indexed) return;
+    for (const token of indexed.tokens) {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(token);
+        this.sortedTerms = null;
+      }
+    }
+    this.notes.delete(id);
+  }
+
+  private lookupPrefix(prefix: string): Set<string> {
+    this.sortedTerms ??= [...this.postings.keys()].sort();
+    const terms = this.sortedTerms;
+
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (terms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const ids = new Set<string>();
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      for (const id of this.postings.get(terms[i])!) ids.add(id);
+    }
+    return ids;
+  }
+}
+
+/** Pinned notes first, then the rest, each in `sort` order. */
+export function sortNotes(notes: Note[], sort: NoteSort): Note[] {
+  const pinnedFirst = (a: Note, b: Note) => Number(b.pinned ?? false) - Number(a.pinned ?? false);
+  if (sort === "manual") return [...notes].sort((a, b) => pinnedFirst(a, b) || manualKey(a) - manualKey(b));
+
+  const [field, direction] = sort.split("-") as ["created" | "updated", "asc" | "desc"];
+  const key = field === "created" ? "createdAt" : "updatedAt";
+  const sign = direction === "asc" ? 1 : -1;
+  return [...notes].sort((a, b) => pinnedFirst(a, b) || sign * (a[key] - b[key]));
+}
+
+/**
+ * Regex matching the start of any word that begins with a query term, found
+ * the way the index finds it: case and diacritics are ignored. Diacritics are
+ * matched as combining marks, so the text must be in NFD form (see Highlight).
+ */
+export function highlightPattern(query: string): RegExp | null {
+  const terms = tokenize(query).map((term) => [...term].map((char) => `${char}\\p{M}*`).join(""));
+  if (terms.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(${terms.join("|")})`, "giu");
+}
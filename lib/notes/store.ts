@@ -0,0 +1,278 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, rename } from "node:fs/promises";
+import path from "node:path";
+import { createQueue, dataPath, readJsonFile, writeJsonFile } from "@/lib/json-file";
+import { applyPatch } from "./patch";
+import { parseTags } from "./tags";
+import type { Note, NoteInput, NotePatch, NoteRevision, RevisionSource } from "./types";
+
+export type WriteResult =
+  | { status: "ok"; note: Note }
+  | { status: "conflict"; note: Note }
+  | { status: "missing" };
+
+/**
+ * Optimistic-concurrency guard for updates and deletes. When baseRevision is
+ * given it must match the stored revision, otherwise the write is refused.
+ */
+export interface WriteOptions {
+  baseRevision?: number;
+  writerId?: string;
+  /** Recorded on the revision when the write changes the note's content. */
+  source?: RevisionSource;
+}
+
+/** Versions kept per note; the oldest are dropped past this. */
+const MAX_REVISIONS = 50;
+const DEFAULT_TRASH_DAYS = 30;
+
+/**
+ * JSON-file note store with one file per user. Every write rewrites the whole
+ * file, and writes are serialised so concurrent requests can't interleave.
+ * Each note's past versions live in a second file per user (see history below).
+ */
+function dataFile(userId: string): string {
+  return dataPath("notes", `${encodeURIComponent(userId)}.json`);
+}
+
+function historyFile(userId: string): string {
+  return dataPath("history", `${encodeURIComponent(userId)}.json`);
+}
+
+/** Revisions by note id, oldest first. */
+type History = Record<string, NoteRevision[]>;
+
+const queue = createQueue();
+
+/** How long deleted notes stay in the trash (NOTES_TRASH_DAYS, default 30; 0 deletes at once). */
+export function trashRetentionDays(): number {
+  const days = Number(process.env.NOTES_TRASH_DAYS ?? DEFAULT_TRASH_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_DAYS;
+}
+
+function isExpired(note: Note, now: number): boolean {
+  return note.deletedAt !== undefined && now - note.deletedAt >= trashRetentionDays() * 24 * 60 * 60 * 1000;
+}
+
+async function readNotes(userId: string): Promise<Note[]> {
+  const parsed = await readJsonFile<Note[]>(dataFile(userId), []);
+  // Notes stored before revisions and tags existed get them filled in.
+  return Array.isArray(parsed)
+    ? parsed.map((note) => ({ ...note, revision: note.revision ?? 1, tags: note.tags ?? parseTags(note.content) }))
+    : [];
+}
+
+async function readHistory(userId: string): Promise<History> {
+  return readJsonFile<History>(historyFile(userId), {});
+}
+
+/**
+ * Adds the version `note` now has. A note with no history yet (written before
+ * history was kept) first gets the version it had before this write.
+ */
+function recordRevision(history: History, previous: Note | undefined, note: Note, source?: RevisionSource) {
+  const revisions = history[note.id] ?? [];
+  if (revisions.length === 0 && previous) {
+    revisions.push({ revision: previous.revision, content: previous.content, savedAt: previous.updatedAt });
+  }
+  revisions.push({ revision: note.revision, content: note.content, savedAt: note.updatedAt, source });
+  history[note.id] = revisions.slice(-MAX_REVISIONS);
+}
+
+function forget(history: History, ids: string[]) {
+  for (const id of ids) delete history[id];
+}
+
+interface Mutation<T> {
+  notes: Note[];
+  result: T;
+  /** Called with the history when the write changes it; see recordRevision. */
+  history?: (history: History) => void;
+}
+
+// Notes past their time in the trash are purged, with their history, by
+// whichever write comes next.
+function mutate<T>(userId: string, fn: (notes: Note[]) => Mutation<T>): Promise<T> {
+  return queue.run(async () => {
+    const now = Date.now();
+    const stored = await readNotes(userId);
+    const expired = stored.filter((note) => isExpired(note, now)).map((note) => note.id);
+    const { notes, result, history: changeHistory } = fn(stored.filter((note) => !isExpired(note, now)));
+
+    await writeJsonFile(dataFile(userId), notes);
+    if (changeHistory || expired.length > 0) {
+      const history = await readHistory(userId);
+      forget(history, expired);
+      changeHistory?.(history);
+      await writeJsonFile(historyFile(userId), history);
+    }
+    return result;
+  });
+}
+
+/**
+ * Gives `userId` the notes kept in `notes.json` from before there were
+ * accounts. Called once, for the first account created.
+ */
+export function adoptLegacyNotes(userId: string): Promise<void> {
+  return queue.run(async () => {
+    try {
+      await mkdir(path.dirname(dataFile(userId)), { recursive: true });
+      await rename(dataPath("notes.json"), dataFile(userId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  });
+}
+
+/** Notes outside the trash, newest first. */
+export async function listNotes(userId: string): Promise<Note[]> {
+  await queue.idle();
+  const notes = await readNotes(userId);
+  return notes.filter((note) => note.deletedAt === undefined).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Notes in the trash, most recently deleted first. */
+export async function listTrash(userId: string): Promise<Note[]> {
+  await queue.idle();
+  const now = Date.now();
+  const notes = await readNotes(userId);
+  return notes
+    .filter((note) => note.deletedAt !== undefined && !isExpired(note, now))
+    .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+}
+
+export async function getNote(userId: string, id: string): Promise<Note | undefined> {
+  await queue.idle();
+  return (await readNotes(userId)).find((note) => note.id === id && note.deletedAt === undefined);
+}
+
+/** Saved versions of a note's content, newest first. Trashed notes keep theirs. */
+export async function getHistory(userId: string, id: string): Promise<NoteRevision[]> {
+  await queue.idle();
+  return [...((await readHistory(userId))[id] ?? [])].reverse();
+}
+
+/**
+ * Creates a note. Re-sending an id that already exists returns the stored note;
+ * an id that is in the trash is replaced, keeping its history.
+ */
+export function createNote(userId: string, input: NoteInput): Promise<Note> {
+  return mutate(userId, (notes) => {
+    const existing = input.id ? notes.find((note) => note.id === input.id) : undefined;
+    if (existing && existing.deletedAt === undefined) return { notes, result: existing };
+
+    const { writerId, source, ...fields } = input;
+    const now = Date.now();
+    const note: Note = {
+      ...fields,
+      id: input.id || randomUUID(),
+      tags: parseTags(input.content),
+      createdAt: input.createdAt ?? now,
+      updatedAt: now,
+      revision: (existing?.revision ?? 0) + 1,
+      updatedBy: writerId,
+    };
+    return {
+      notes: [note, ...notes.filter((other) => other !== existing)],
+      result: note,
+      history: (history) => recordRevision(history, existing, note, source),
+    };
+  });
+}
+
+export function updateNote(
+  userId: string,
+  id: string,
+  patch: NotePatch,
+  options: WriteOptions = {},
+): Promise<WriteResult> {
+  return mutate<WriteResult>(userId, (notes) => {
+    const index = notes.findIndex((note) => note.id === id && note.deletedAt === undefined);
+    if (index === -1) return { notes, result: { status: "missing" } };
+
+    const current = notes[index];
+    if (options.baseRevision !== undefined && options.baseRevision !== current.revision) {
+      return { notes, result: { status: "conflict", note: current } };
+    }
+
+    const now = Date.now();
+    const patched = applyPatch(current, patch);
+    const note: Note = {
+      ...patched,
+      updatedAt: now,
+      contentUpdatedAt: patched.content === current.content ? current.contentUpdatedAt : now,
+      revision: current.revision + 1,
+      updatedBy: options.writerId,
+    };
+    const next = [...notes];
+    next[index] = note;
+    return {
+      notes: next,
+      result: { status: "ok", note },
+      history: note.content === current.content ? undefined : (history) => recordRevision(history, current, note, options.source),
+    };
+  });
+}
+
+/** Unfiles every note in a notebook, trashed ones included. Returns how many there were. */
+export function clearNotebook(userId: string, notebookId: string): Promise<number> {
+  return mutate(userId, (notes) => {
+    const now = Date.now();
+    let count = 0;
+    const next = notes.map((note) => {
+      if (note.notebookId !== notebookId) return note;
+      count++;
+      const { notebookId: _notebookId, ...rest } = note;
+      return { ...rest, updatedAt: now, revision: note.revision + 1 };
+    });
+    return { notes: next, result: count };
+  });
+}
+
+/** Moves a note to the trash, or deletes it outright when the trash is off. */
+export function deleteNote(userId: string, id: string, options: WriteOptions = {}): Promise<WriteResult> {
+  return mutate<WriteResult>(userId, (notes) => {
+    const current = notes.find((note) => note.id === id && note.deletedAt === undefined);
+    if (!current) return { notes, result: { status: "missing" } };
+
+    if (options.baseRevision !== undefined && options.baseRevision !== current.revision) {
+      return { notes, result: { status: "conflict", note: current } };
+    }
+    if (trashRetentionDays() === 0) {
+      return {
+        notes: notes.filter((note) => note !== current),
+        result: { status: "ok", note: current },
+        history: (history) => forget(history, [id]),
+      };
+    }
+
+    const trashed: Note = { ...current, deletedAt: Date.now(), revision: current.revision + 1, updatedBy: options.writerId };
+    return { notes: notes.map((note) => (note === current ? trashed : note)), result: { status: "ok", note: trashed } };
+  });
+}
+
+/** Takes a note back out of the trash. */
+export function restoreNote(userId: string, id: string): Promise<WriteResult> {
+  return mutate<WriteResult>(userId, (notes) => {
+    const current = notes.find((note) => note.id === id && note.deletedAt !== undefined);
+    if (!current) return { notes, result: { status: "missing" } };
+
+    const { deletedAt: _deletedAt, ...rest } = current;
+    const note: Note = { ...rest, updatedAt: Date.now(), revision: current.revision + 1 };
+    return { notes: notes.map((other) => (other === current ? note : other)), result: { status: "ok", note } };
+  });
+}
+
+/** Deletes trashed notes for good, all of them when `id` is omitted. Returns those removed. */
+export function purgeTrash(userId: string, id?: string): Promise<Note[]> {
+  return mutate(userId, (notes) => {
+    const purged = notes.filter((note) => note.deletedAt !== undefined && (id === undefined || note.id === id));
+    if (purged.length === 0) return { notes, result: purged };
+    return {
+      notes: notes.filter((note) => !purged.includes(note)),
+      result: purged,
+      history: (history) => forget(history, purged.map((note) => note.id)),
+    };
+  });
+}
@@ -0,0 +1,188 @@
+import { NotesApiError, patchNote, postNote, removeNote, restoreFromTrash } from "./client";
+import { applyPatch } from "./patch";
+import type { Note, NotePatch, RevisionSource } from "./types";
+
+const OUTBOX_KEY = "brutalist-notes-outbox";
+const WRITER_KEY = "brutalist-notes-writer";
+
+type OutboxChange =
+  | { type: "create"; note: Note; source?: RevisionSource }
+  | { type: "update"; id: string; patch: NotePatch; baseRevision: number; editedAt: number; source?: RevisionSource }
+  | { type: "delete"; id: string; baseRevision: number }
+  | { type: "restore"; note: Note };
+
+/** A local change waiting to be sent to /api/notes, in the order it was made. */
+export type OutboxOp = OutboxChange & { opId: string; writerId: string };
+
+/**
+ * Identifies this browser tab as a writer. sessionStorage survives reloads but
+ * not new tabs, so two tabs on one device still conflict with each other.
+ */
+export function getWriterId(): string {
+  let writerId = sessionStorage.getItem(WRITER_KEY);
+  if (!writerId) {
+    writerId = crypto.randomUUID();
+    sessionStorage.setItem(WRITER_KEY, writerId);
+  }
+  return writerId;
+}
+
+// The outbox is re-read from localStorage on every access so tabs sharing it
+// never write back a stale copy.
+export function readOutbox(): OutboxOp[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OUTBOX_KEY) || "[]");
+    if (!Array.isArray(parsed)) return [];
+    // Updates queued before patches existed carried only `content`.
+    return parsed.map((op) => (op.type === "update" && !op.patch ? { ...op, patch: { content: op.content } } : op));
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(ops: OutboxOp[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(ops));
+}
+
+export function enqueue(change: OutboxChange) {
+  writeOutbox([...readOutbox(), { ...change, opId: crypto.randomUUID(), writerId: getWriterId() }]);
+}
+
+/** Forgets every queued change, e.g. when they belonged to another account. */
+export function clearOutbox() {
+  localStorage.removeItem(OUTBOX_KEY);
+}
+
+function dequeue(opId: string) {
+  writeOutbox(readOutbox().filter((op) => op.opId !== opId));
+}
+
+/** Overlays queued changes on a server snapshot to get what this client should show. */
+export function applyOutbox(notes: Note[], ops: OutboxOp[] = readOutbox()): Note[] {
+  let result = [...notes];
+  for (const op of ops) {
+    switch (op.type) {
+      case "create":
+      case "restore":
+        if (!result.some((note) => note.id === op.note.id)) result.push(op.note);
+        break;
+      case "update":
+        result = result.map((note) =>
+          note.id === op.id ? { ...applyPatch(note, op.patch), updatedAt: op.editedAt } : note,
+        );
+        break;
+      case "delete":
+        result = result.filter((note) => note.id !== op.id);
+        break;
+    }
+  }
+  return result.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Last writer wins: whichever side was edited later keeps the note, and the
+ * other side's text is saved as a separate "conflict copy" note. The copy's id
+ * is derived from the op so a retried flush doesn't create it twice.
+ */
+async function resolveUpdateConflict(op: Extract<OutboxOp, { type: "update" }>, server: Note) {
+  const overwrite = () =>
+    patchNote(op.id, op.patch, { baseRevision: server.revision, writerId: op.writerId, source: op.source });
+  const content = op.patch.content;
+
+  // Changes to other fields merge field by field, and the newer revision may
+  // have come from this same tab (an earlier queued edit): in both cases
+  // there is no text to keep from the server side.
+  if (content === undefined || content === server.content || server.updatedBy === op.writerId) {
+    await overwrite();
+    return;
+  }
+
+  const copyId = `${op.opId}-conflict`;
+  if (op.editedAt >= server.updatedAt) {
+    await postNote({ id: copyId, content: server.content, conflictOf: op.id, writerId: op.writerId });
+    await overwrite();
+  } else {
+    await postNote({ id: copyId, content, conflictOf: op.id, writerId: op.writerId });
+  }
+}
+
+// Sends `note` as a new note, leaving out what the server sets itself.
+async function createNote(note: Note, writerId: string, source?: RevisionSource) {
+  const { updatedAt: _updatedAt, revision: _revision, updatedBy: _updatedBy, tags: _tags, ...input } = note;
+  await postNote({ ...input, writerId, source });
+}
+
+async function send(op: OutboxOp) {
+  try {
+    switch (op.type) {
+      case "create":
+        await createNote(op.note, op.writerId, op.source);
+        return;
+      case "update":
+        await patchNote(op.id, op.patch, { baseRevision: op.baseRevision, writerId: op.writerId, source: op.source });
+        return;
+      case "delete":
+        await removeNote(op.id, op.baseRevision, op.writerId);
+        return;
+      case "restore":
+        await restoreFromTrash(op.note.id);
+        return;
+    }
+  } catch (error) {
+    if (!(error instanceof NotesApiError)) throw error;
+
+    if (op.type === "update" && error.status === 404) {
+      // Deleted elsewhere while we edited it: an edit to the text wins and brings it back.
+      if (op.patch.content) {
+        await postNote({ id: op.id, content: op.patch.content, writerId: op.writerId, source: op.source });
+      }
+    } else if (op.type === "update" && error.status === 409 && error.note) {
+      await resolveUpdateConflict(op, error.note);
+    } else if (op.type === "delete" && error.status === 404) {
+      // Already gone.
+    } else if (op.type === "delete" && error.status === 409 && error.note) {
+      // Someone else edited the note since we saw it; their edit survives the delete.
+      if (error.note.updatedBy === op.writerId) await removeNote(op.id, error.note.revision, op.writerId);
+    } else if (op.type === "restore" && error.status === 404) {
+      // Deleted outright with the trash off, or never deleted at all: sending
+      // it as new brings it back, and is a no-op for a note that still exists.
+      await createNote(op.note, op.writerId, "restore");
+    } else {
+      throw error;
+    }
+  }
+}
+
+// Failures worth trying again later: an expired session, rate limiting and
+// server errors. Any other status is the server refusing the change itself.
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof NotesApiError)) return true;
+  return error.status === 401 || error.status === 429 || error.status >= 500;
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Sends queued changes in order. A network failure, an expired session or a
+ * server error stops the flush and leaves the remaining changes queued;
+ * changes the server rejects outright are dropped.
+ */
+export function flushOutbox(): Promise<void> {
+  // Cleared in a callback: with nothing queued the loop finishes synchronously,
+  // before `flushing` would have been assigned.
+  flushing ??= (async () => {
+    let op: OutboxOp | undefined;
+    while ((op = readOutbox()[0])) {
+      try {
+        await send(op);
+      } catch (error) {
+        if (isRetryable(error)) throw error;
+        console.error("Dropping note change rejected by the server", op, error);
+      }
+      dequeue(op.opId);
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
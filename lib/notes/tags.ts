@@ -0,0 +1,24 @@
+import type { Note } from "./types";
+
+// A tag is "#" followed by letters, digits, "_" or "-", at the start of the
+// text or after whitespace, so "a#b" and URL fragments don't count.
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{M}\p{N}_-]+)/gu;
+
+/** Unique, lower-cased tags in order of first appearance. */
+export function parseTags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    tags.add(match[2].toLowerCase());
+  }
+  return [...tags];
+}
+
+/** Returns the note with `tags` re-derived from its content. */
+export function withTags<T extends Pick<Note, "content">>(note: T): T & { tags: string[] } {
+  return { ...note, tags: parseTags(note.content) };
+}
+
+/** Tags of a note, deriving them for notes cached before tags were stored. */
+export function noteTags(note: Pick<Note, "content" | "tags">): string[] {
+  return note.tags ?? parseTags(note.content);
+}
@@ -0,0 +1,127 @@
+/**
+ * Recording a voice note was transcribed from. The audio itself lives in the
+ * recording browser's IndexedDB (see lib/audio-store); only this metadata syncs.
+ */
+export interface AudioAttachment {
+  id: string;
+  mimeType: string;
+  durationMs: number;
+  size: number;
+}
+
+export interface Note {
+  id: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+  /** When the content last changed; absent while it is as first written. */
+  contentUpdatedAt?: number;
+  /** Incremented by the server on every write; used to detect concurrent edits. */
+  revision: number;
+  /** Writer (browser tab) that made the latest change. */
+  updatedBy?: string;
+  /** Set on a "conflict copy": the id of the note whose edit it lost to. */
+  conflictOf?: string;
+  /** Language code of a voice note (see lib/transcription/languages). */
+  language?: string;
+  /** Untranslated transcript, kept when a voice note was translated to English. */
+  originalText?: string;
+  attachment?: AudioAttachment;
+  /** Lower-cased #hashtags parsed from content (see lib/notes/tags). */
+  tags?: string[];
+  /** Short AI-generated title (see /api/process). */
+  title?: string;
+  /** AI-generated bullet summary. */
+  summary?: string[];
+  /** Content before the first AI clean-up, so it can be restored. */
+  rawContent?: string;
+  /** When the note was moved to the trash; trashed notes are purged after a while. */
+  deletedAt?: number;
+  /** When what the note is about is due (see lib/notes/due-date). */
+  dueAt?: number;
+  /** When to show a notification about it; usually the same as `dueAt`. */
+  remindAt?: number;
+  /** Notebook the note is filed in; unfiled notes have none. */
+  notebookId?: string;
+  /** Pinned notes are listed before the rest. */
+  pinned?: boolean;
+  /** Place in the manual order, lowest first (see lib/notes/order). */
+  position?: number;
+  /** When the note was archived; archived notes are left out of the main list. */
+  archivedAt?: number;
+}
+
+/** A named group of notes. Notes point to it by `notebookId`. */
+export interface Notebook {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/** What produced a version of a note's text. */
+export type RevisionSource = "typed" | "voice" | "ai" | "restore";
+
+/** One saved version of a note's content, kept by the server on every change to it. */
+export interface NoteRevision {
+  /** The note's revision number once this version was saved. */
+  revision: number;
+  content: string;
+  savedAt: number;
+  /** Missing for the version a note had before history was kept. */
+  source?: RevisionSource;
+}
+
+/** A note found by meaning rather than by its words (see lib/notes/embeddings). */
+export interface NoteMatch {
+  id: string;
+  /** Cosine similarity, higher is closer. */
+  score: number;
+}
+
+/** Fields a client may set when creating a note; the server fills in the rest. */
+export type NoteInput = Partial<
+  Pick<
+    Note,
+    | "id"
+    | "createdAt"
+    | "conflictOf"
+    | "language"
+    | "originalText"
+    | "attachment"
+    | "title"
+    | "summary"
+    | "rawContent"
+    | "dueAt"
+    | "remindAt"
+    | "notebookId"
+    | "pinned"
+    | "position"
+    | "archivedAt"
+  >
+> & {
+  content: string;
+  writerId?: string;
+  source?: RevisionSource;
+};
+
+/** Extra fields recorded on a note created from a voice recording. */
+export type VoiceNoteDetails = Partial<Pick<Note, "language" | "originalText" | "attachment">>;
+
+/** Fields a new note can start with besides its content. */
+export type NoteDetails = VoiceNoteDetails & Partial<Pick<Note, "notebookId">>;
+
+type ClearableField =
+  | "language"
+  | "originalText"
+  | "title"
+  | "summary"
+  | "rawContent"
+  | "dueAt"
+  | "remindAt"
+  | "notebookId"
+  | "pinned"
+  | "position"
+  | "archivedAt";
+
+/** Fields a client may change on an existing note; `null` clears an optional field. */
+export type NotePatch = { content?: string } & { [K in ClearableField]?: Note[K] | null };
@@ -0,0 +1,112 @@
+import type { AudioAttachment, NoteInput, NotePatch, RevisionSource } from "./types";
+
+/** Request-body parsing for the /api/notes and /api/notebooks routes. */
+export type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+type Body = Record<string, unknown>;
+
+function optionalString(body: Body, key: string): string | undefined {
+  return typeof body[key] === "string" ? (body[key] as string) : undefined;
+}
+
+function optionalNumber(body: Body, key: string): number | undefined {
+  return typeof body[key] === "number" && Number.isFinite(body[key]) ? (body[key] as number) : undefined;
+}
+
+function parseAttachment(value: unknown): AudioAttachment | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { id, mimeType, durationMs, size } = value as Record<string, unknown>;
+  if (typeof id !== "string" || typeof mimeType !== "string") return undefined;
+  if (typeof durationMs !== "number" || typeof size !== "number") return undefined;
+  return { id, mimeType, durationMs, size };
+}
+
+const REVISION_SOURCES: RevisionSource[] = ["typed", "voice", "ai", "restore"];
+
+/** The `source` of a write, if it names one. */
+export function parseRevisionSource(value: unknown): RevisionSource | undefined {
+  return REVISION_SOURCES.find((source) => source === value);
+}
+
+function parseSummary(value: unknown): string[] | undefined {
+  return Array.isArray(value) && value.every((item) => typeof item === "string") ? value : undefined;
+}
+
+export function parseNoteInput(body: unknown): Parsed<NoteInput> {
+  if (!body || typeof body !== "object") return { ok: false, error: "Invalid JSON body" };
+  const fields = body as Body;
+
+  const content = optionalString(fields, "content");
+  if (!content?.trim()) return { ok: false, error: "Note content is required" };
+
+  return {
+    ok: true,
+    value: {
+      id: optionalString(fields, "id"),
+      content,
+      createdAt: typeof fields.createdAt === "number" ? fields.createdAt : undefined,
+      conflictOf: optionalString(fields, "conflictOf"),
+      language: optionalString(fields, "language"),
+      originalText: optionalString(fields, "originalText"),
+      attachment: parseAttachment(fields.attachment),
+      title: optionalString(fields, "title"),
+      summary: parseSummary(fields.summary),
+      rawContent: optionalString(fields, "rawContent"),
+      dueAt: optionalNumber(fields, "dueAt"),
+      remindAt: optionalNumber(fields, "remindAt"),
+      notebookId: optionalString(fields, "notebookId"),
+      pinned: fields.pinned === true || undefined,
+      position: optionalNumber(fields, "position"),
+      archivedAt: optionalNumber(fields, "archivedAt"),
+      writerId: optionalString(fields, "writerId"),
+      source: parseRevisionSource(fields.source),
+    },
+  };
+}
+
+export function parseNotePatch(body: unknown): Parsed<NotePatch> {
+  if (!body || typeof body !== "object") return { ok: false, error: "Invalid JSON body" };
+  const fields = body as Body;
+  const patch: NotePatch = {};
+
+  if ("content" in fields) {
+    const content = optionalString(fields, "content");
+    if (!content?.trim()) return { ok: false, error: "Note content cannot be empty" };
+    patch.content = content;
+  }
+  for (const key of ["language", "originalText", "title", "rawContent", "notebookId"] as const) {
+    const value = fields[key];
+    if (value === null || typeof value === "string") patch[key] = value;
+  }
+  for (const key of ["dueAt", "remindAt", "position", "archivedAt"] as const) {
+    if (!(key in fields)) continue;
+    const value = fields[key] === null ? null : optionalNumber(fields, key);
+    if (value === undefined) return { ok: false, error: `${key} must be a number or null` };
+    patch[key] = value;
+  }
+  // Unpinning removes the field rather than storing false.
+  if (fields.pinned === true) patch.pinned = true;
+  else if (fields.pinned === false || fields.pinned === null) patch.pinned = null;
+  if (fields.summary === null) {
+    patch.summary = null;
+  } else if (Array.isArray(fields.summary)) {
+    if (!fields.summary.every((item) => typeof item === "string")) {
+      return { ok: false, error: "Summary must be a list of strings" };
+    }
+    patch.summary = fields.summary;
+  }
+
+  if (Object.keys(patch).length === 0) return { ok: false, error: "Nothing to update" };
+  return { ok: true, value: patch };
+}
+
+// Long enough for any sensible notebook name, short enough for a tab.
+const MAX_NOTEBOOK_NAME = 60;
+
+export function parseNotebookName(body: unknown): Parsed<string> {
+  if (!body || typeof body !== "object") return { ok: false, error: "Invalid JSON body" };
+  const name = optionalString(body as Body, "name")?.trim();
+  if (!name) return { ok: false, error: "Notebook name is required" };
+  if (name.length > MAX_NOTEBOOK_NAME) return { ok: false, error: `Notebook name is longer than ${MAX_NOTEBOOK_NAME} characters` };
+  return { ok: true, value: name };
+}
@@ -0,0 +1,36 @@
+import { withStore } from "./idb";
+import type { AudioAttachment } from "./notes/types";
+import type { TranscriptionFailureKind } from "./transcription/client";
+import type { TranscriptionLanguage } from "./transcription/languages";
+
+/**
+ * A recording whose transcription failed, waiting to be tried again. The audio
+ * is already in the audio store under `attachment.id`, so it becomes the note's
+ * recording once transcribed. Browser only.
+ */
+export interface PendingRecording {
+  id: string;
+  attachment: AudioAttachment;
+  language: TranscriptionLanguage;
+  translate: boolean;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: { kind: TranscriptionFailureKind; message: string };
+  /** Set when retrying can't help (bad audio); only a manual retry runs it again. */
+  failed?: boolean;
+}
+
+export async function savePending(recording: PendingRecording): Promise<void> {
+  await withStore("pending", "readwrite", (store) => store.put(recording, recording.id));
+}
+
+/** Every pending recording, oldest first. */
+export async function listPending(): Promise<PendingRecording[]> {
+  const recordings = await withStore<PendingRecording[]>("pending", "readonly", (store) => store.getAll());
+  return recordings.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function deletePending(id: string): Promise<void> {
+  await withStore("pending", "readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,18 @@
+import { getGemini } from "../gemini";
+import { instructionsFor, parseReply } from "./prompts";
+import type { ProcessingProvider } from "./types";
+
+export const geminiProvider: ProcessingProvider = {
+  id: "gemini",
+  async process({ action, text }) {
+    const response = await getGemini().models.generateContent({
+      model: process.env.GEMINI_PROCESSING_MODEL || "gemini-2.5-flash",
+      contents: text,
+      config: {
+        systemInstruction: instructionsFor(action),
+        responseMimeType: "application/json",
+      },
+    });
+    return parseReply(response.text, action, "gemini");
+  },
+};
@@ -0,0 +1,45 @@
+import { chooseProviders, firstToSucceed, providerTimeout } from "@/lib/providers";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { openaiProvider } from "./openai";
+import {
+  ProcessingError,
+  type ProcessingProvider,
+  type ProcessingProviderId,
+  type ProcessingRequest,
+  type ProcessingResult,
+} from "./types";
+
+export * from "./types";
+
+const providers: Record<ProcessingProviderId, ProcessingProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Providers to try, in order. PROCESSING_PROVIDERS works like
+ * TRANSCRIPTION_PROVIDERS; when unset, every vendor with an API key is used.
+ */
+export function getProcessingProviders(): ProcessingProvider[] {
+  return chooseProviders(providers, "PROCESSING_PROVIDERS", "processing");
+}
+
+/**
+ * Processes with the first provider that succeeds, failing over on errors.
+ * Each provider gets PROCESSING_TIMEOUT_MS (default 60s) to answer.
+ */
+export async function processTranscript(request: ProcessingRequest): Promise<ProcessingResult> {
+  const chain = getProcessingProviders();
+  if (chain.length === 0) {
+    throw new ProcessingError("No processing provider is configured", 503);
+  }
+
+  const timeoutMs = providerTimeout("PROCESSING_TIMEOUT_MS");
+  return firstToSucceed(chain, (provider) => provider.process(request), {
+    label: "Processing",
+    timeoutMs,
+    timedOut: (provider) => new ProcessingError(`Processing timed out after ${timeoutMs / 1000}s`, 504, provider.id),
+  });
+}
@@ -0,0 +1,36 @@
+import type { ProcessingProvider } from "./types";
+
+const FILLERS = /\b(um+|uh+|erm|hmm+|you know|i mean)\b[,.]?\s*/gi;
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?।])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function capitalise(sentence: string): string {
+  const trimmed = sentence.charAt(0).toUpperCase() + sentence.slice(1);
+  return /[.!?।]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+function titleFrom(text: string): string {
+  return text.split(/\s+/).slice(0, 6).join(" ").replace(/[.,!?।]+$/, "");
+}
+
+/**
+ * Offline stand-in: strips common filler words and fixes capitalisation for
+ * "cleanup", and uses the first sentences as the "summarize" bullets.
+ */
+export const mockProvider: ProcessingProvider = {
+  id: "mock",
+  async process({ action, text }) {
+    const cleaned = sentences(text.replace(FILLERS, "").replace(/\s{2,}/g, " ")).map(capitalise);
+    const title = titleFrom(cleaned[0] ?? text);
+
+    if (action === "cleanup") {
+      return { title, content: cleaned.join(" "), provider: "mock" };
+    }
+    return { title, summary: cleaned.slice(0, 3), provider: "mock" };
+  },
+};
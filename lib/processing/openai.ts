@@ -0,0 +1,27 @@
+import { APIError } from "openai";
+import { gatewayStatus } from "@/lib/providers";
+import { getOpenAI } from "../openai";
+import { instructionsFor, parseReply } from "./prompts";
+import { ProcessingError, type ProcessingProvider } from "./types";
+
+export const openaiProvider: ProcessingProvider = {
+  id: "openai",
+  async process({ action, text }) {
+    try {
+      const completion = await getOpenAI().chat.completions.create({
+        model: process.env.OPENAI_PROCESSING_MODEL || "gpt-4o-mini",
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: instructionsFor(action) },
+          { role: "user", content: text },
+        ],
+      });
+      return parseReply(completion.choices[0]?.message.content, action, "openai");
+    } catch (error) {
+      if (error instanceof APIError) {
+        throw new ProcessingError(error.message, gatewayStatus(error.status), "openai");
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,50 @@
+import { ProcessingError, type ProcessingAction, type ProcessingProviderId, type ProcessingResult } from "./types";
+
+const INSTRUCTIONS: Record<ProcessingAction, string> = {
+  cleanup: [
+    "You tidy up dictated notes.",
+    "Remove filler words, false starts and repetitions, fix punctuation and capitalisation,",
+    "and keep the speaker's wording, language and meaning. Do not add information.",
+    'Reply with JSON only: {"title": a title of at most six words, "content": the cleaned-up note}.',
+  ].join(" "),
+  summarize: [
+    "You summarise dictated notes.",
+    "Write between one and five short bullet points covering the key facts, decisions and to-dos,",
+    "in the note's language. Do not add information.",
+    'Reply with JSON only: {"title": a title of at most six words, "summary": an array of bullet strings}.',
+  ].join(" "),
+};
+
+export function instructionsFor(action: ProcessingAction): string {
+  return INSTRUCTIONS[action];
+}
+
+/** Validates a model's JSON reply for the given action. */
+export function parseReply(
+  raw: string | null | undefined,
+  action: ProcessingAction,
+  provider: ProcessingProviderId,
+): ProcessingResult {
+  let reply: { title?: unknown; content?: unknown; summary?: unknown };
+  try {
+    reply = JSON.parse(raw ?? "");
+  } catch {
+    throw new ProcessingError("Model returned malformed JSON", 502, provider);
+  }
+
+  const title = typeof reply.title === "string" ? reply.title.trim() : "";
+  if (action === "cleanup") {
+    if (typeof reply.content !== "string" || !reply.content.trim()) {
+      throw new ProcessingError("Model returned no cleaned-up text", 502, provider);
+    }
+    return { title, content: reply.content.trim(), provider };
+  }
+
+  const summary = Array.isArray(reply.summary)
+    ? reply.summary.filter((item): item is string => typeof item === "string" && item.trim() !== "").map((item) => item.trim())
+    : [];
+  if (summary.length === 0) {
+    throw new ProcessingError("Model returned no summary", 502, provider);
+  }
+  return { title, summary, provider };
+}
@@ -0,0 +1,34 @@
+export type ProcessingProviderId = "openai" | "gemini" | "mock";
+
+/** "cleanup" rewrites a transcript; "summarize" condenses it into bullets. Both add a title. */
+export type ProcessingAction = "cleanup" | "summarize";
+
+export interface ProcessingRequest {
+  action: ProcessingAction;
+  text: string;
+}
+
+export interface ProcessingResult {
+  title: string;
+  /** Cleaned-up text ("cleanup" only). */
+  content?: string;
+  /** Bullet points ("summarize" only). */
+  summary?: string[];
+  provider: ProcessingProviderId;
+}
+
+export interface ProcessingProvider {
+  id: ProcessingProviderId;
+  process(request: ProcessingRequest): Promise<ProcessingResult>;
+}
+
+export class ProcessingError extends Error {
+  constructor(
+    message: string,
+    readonly status = 502,
+    readonly provider?: ProcessingProviderId,
+  ) {
+    super(message);
+    this.name = "ProcessingError";
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Provider chains, shared by transcription and AI processing: which vendors to
+ * try, and failing over from one to the next when it errors or takes too long.
+ */
+
+// Vendors used by default when their API key is set, in this order.
+const API_KEYS: Record<string, string> = {
+  openai: "OPENAI_API_KEY",
+  gemini: "GEMINI_API_KEY",
+};
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * Providers to try, in order. `variable` names a comma-separated list such as
+ * "openai,gemini"; when it is unset, every vendor with an API key is used.
+ * `kind` names the chain in errors ("transcription").
+ */
+export function chooseProviders<Id extends string, P>(providers: Record<Id, P>, variable: string, kind: string): P[] {
+  const isProviderId = (id: string): id is Id => Object.hasOwn(providers, id);
+  const configured = process.env[variable];
+  if (!configured) {
+    return (Object.keys(providers) as Id[])
+      .filter((id) => API_KEYS[id] && process.env[API_KEYS[id]])
+      .map((id) => providers[id]);
+  }
+
+  return configured
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+    .map((id) => {
+      if (!isProviderId(id)) throw new Error(`Unknown ${kind} provider "${id}"`);
+      return providers[id];
+    });
+}
+
+/**
+ * Our status for a vendor call that failed with `status`: 503 when the vendor
+ * is rate-limited or down and may recover, otherwise 502. Its own status is
+ * never passed on; its 401 means our API key is wrong, not that the user is
+ * signed out.
+ */
+export function gatewayStatus(status: number | undefined): 502 | 503 {
+  return status === 429 || (status !== undefined && status >= 500) ? 503 : 502;
+}
+
+/** Milliseconds each provider gets, from `variable` (default 60s). */
+export function providerTimeout(variable: string): number {
+  return Number(process.env[variable]) || DEFAULT_TIMEOUT_MS;
+}
+
+// A provider that hangs is treated like one that failed, so the chain moves on.
+function withTimeout<T>(work: Promise<T>, ms: number, timedOut: () => Error): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(timedOut()), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Runs `attempt` with each provider of `chain` in turn until one succeeds,
+ * giving each `timeoutMs`. Throws the last provider's error when all fail.
+ * `label` names the chain in logs ("Transcription").
+ */
+export async function firstToSucceed<P extends { id: string }, T>(
+  chain: P[],
+  attempt: (provider: P) => Promise<T>,
+  { label, timeoutMs, timedOut }: { label: string; timeoutMs: number; timedOut: (provider: P) => Error },
+): Promise<T> {
+  let lastError: unknown;
+  for (const provider of chain) {
+    try {
+      return await withTimeout(attempt(provider), timeoutMs, () => timedOut(provider));
+    } catch (error) {
+      console.error(`${label} provider "${provider.id}" failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
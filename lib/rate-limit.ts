@@ -0,0 +1,67 @@
+/**
+ * Sliding-window rate limiting, kept in process memory: each server instance
+ * counts on its own, which is enough to stop a single client hammering a route.
+ */
+export interface RateLimitResult {
+  ok: boolean;
+  remaining: number;
+  /** Seconds until another request will be allowed; 0 when `ok`. */
+  retryAfterSeconds: number;
+}
+
+const hits = new Map<string, number[]>();
+let lastSweep = 0;
+
+// Drops keys with no recent requests so the map doesn't grow without bound.
+function sweep(now: number, windowMs: number) {
+  if (now - lastSweep < windowMs) return;
+  lastSweep = now;
+  for (const [key, times] of hits) {
+    if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+  }
+}
+
+/**
+ * Counts a request against `key`, allowing `limit` per `windowMs`. Refused
+ * requests are not counted. A limit of 0 disables the check.
+ */
+export function takeRateLimit(key: string, limit: number, windowMs = 60_000, now = Date.now()): RateLimitResult {
+  if (limit <= 0) return { ok: true, remaining: Infinity, retryAfterSeconds: 0 };
+  sweep(now, windowMs);
+
+  const recent = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+  if (recent.length >= limit) {
+    hits.set(key, recent);
+    return { ok: false, remaining: 0, retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000) };
+  }
+
+  recent.push(now);
+  hits.set(key, recent);
+  return { ok: true, remaining: limit - recent.length, retryAfterSeconds: 0 };
+}
+
+/**
+ * Counts a request against each `[key, limit]` in turn and returns the first
+ * refusal, or the last result when every limit allows it.
+ */
+export function takeRateLimits(limits: [string, number][], windowMs = 60_000, now = Date.now()): RateLimitResult {
+  let result: RateLimitResult = { ok: true, remaining: Infinity, retryAfterSeconds: 0 };
+  for (const [key, limit] of limits) {
+    result = takeRateLimit(key, limit, windowMs, now);
+    if (!result.ok) break;
+  }
+  return result;
+}
+
+/**
+ * The caller's IP, or undefined when it can't be known. Route handlers don't
+ * see the connection, only headers, and any client can send X-Forwarded-For;
+ * so it is only read when TRUST_PROXY says a proxy in front sets it. The
+ * proxy appends the address it saw, which makes the last entry the one to
+ * trust; anything before it came from the client.
+ */
+export function clientAddress(request: Request): string | undefined {
+  if (process.env.TRUST_PROXY !== "true") return undefined;
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return forwarded || request.headers.get("x-real-ip") || undefined;
+}
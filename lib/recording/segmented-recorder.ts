@@ -0,0 +1,81 @@
+/** Where a segment falls in its recording. */
+export interface SegmentInfo {
+  sequence: number;
+  /** The last segment, cut by stop() rather than rotate(). */
+  final: boolean;
+  durationMs: number;
+}
+
+/**
+ * Records a microphone stream twice over: as a run of segments that can be
+ * transcribed while the user is still talking, and as one whole file to
+ * attach to the note. Each segment gets its own MediaRecorder so its blob is
+ * a complete file with headers; a timeslice chunk on its own is not decodable.
+ * The stream's tracks are stopped once the final segment is out.
+ */
+export class SegmentedRecorder {
+  /** The whole recording; resolves once stop() has taken effect. */
+  readonly whole: Promise<Blob>;
+  private readonly wholeRecorder: MediaRecorder;
+  private segment: MediaRecorder | null = null;
+  private sequence = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly stream: MediaStream,
+    readonly mimeType: string,
+    private readonly onSegment: (blob: Blob, info: SegmentInfo) => void,
+  ) {
+    this.wholeRecorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    this.wholeRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    this.whole = new Promise((resolve) => {
+      this.wholeRecorder.onstop = () => resolve(new Blob(chunks, { type: mimeType }));
+    });
+  }
+
+  start() {
+    this.startSegment();
+    this.wholeRecorder.start();
+  }
+
+  /** Ends the current segment; the next one starts as soon as it's out. */
+  rotate() {
+    if (!this.stopped && this.segment?.state === "recording") this.segment.stop();
+  }
+
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    // Mid-rotation the segment recorder is already inactive; its onstop sees
+    // `stopped` and ends the recording instead of starting a new segment.
+    if (this.segment?.state === "recording") this.segment.stop();
+    if (this.wholeRecorder.state === "recording") this.wholeRecorder.stop();
+  }
+
+  private startSegment() {
+    const recorder = new MediaRecorder(this.stream, { mimeType: this.mimeType });
+    this.segment = recorder;
+    const sequence = this.sequence++;
+    const startedAt = Date.now();
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      const final = this.stopped;
+      this.onSegment(new Blob(chunks, { type: this.mimeType }), { sequence, final, durationMs: Date.now() - startedAt });
+      if (final) {
+        this.stream.getTracks().forEach((track) => track.stop());
+      } else {
+        this.startSegment();
+      }
+    };
+
+    recorder.start();
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * State of the mic button and the panel above it, as a reducer so every
+ * transition lives in one place. A take goes idle → recording → (idle while
+ * its last segment is cut) → processing → idle.
+ */
+export type VoiceStatus = "idle" | "recording" | "processing";
+
+export interface VoiceState {
+  status: VoiceStatus;
+  /** Whole seconds since the current take started. */
+  elapsedSeconds: number;
+  /** Transcript of the segments uploaded so far. */
+  liveTranscript: string;
+  /** Shown in the panel; set by any voice or AI action that fails. */
+  error: string | null;
+}
+
+export type VoiceEvent =
+  | { type: "start" }
+  | { type: "tick"; elapsedSeconds: number }
+  | { type: "stop" }
+  | { type: "mic-failed"; message: string }
+  | { type: "process" }
+  | { type: "transcript"; text: string }
+  | { type: "done" }
+  | { type: "error"; message: string | null };
+
+export const initialVoiceState: VoiceState = { status: "idle", elapsedSeconds: 0, liveTranscript: "", error: null };
+
+export function voiceReducer(state: VoiceState, event: VoiceEvent): VoiceState {
+  switch (event.type) {
+    case "start":
+      // Nothing new is recorded while the last take is still being transcribed.
+      if (state.status !== "idle") return state;
+      return { status: "recording", elapsedSeconds: 0, liveTranscript: "", error: null };
+    case "tick":
+      return state.status === "recording" ? { ...state, elapsedSeconds: event.elapsedSeconds } : state;
+    case "stop":
+      return state.status === "recording" ? { ...state, status: "idle" } : state;
+    case "mic-failed":
+      return { ...state, status: state.status === "recording" ? "idle" : state.status, error: event.message };
+    case "process":
+      // A new take started before the last one's final segment was cut keeps recording.
+      return state.status === "idle" ? { ...state, status: "processing" } : state;
+    case "transcript":
+      return { ...state, liveTranscript: event.text };
+    case "done":
+      return { ...state, status: state.status === "processing" ? "idle" : state.status, liveTranscript: "" };
+    case "error":
+      return { ...state, error: event.message };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Page side of the service worker in public/sw.js: registration, the app-shell
+ * cache and background sync of pending recordings. Browser only.
+ */
+
+/** Background sync tag that uploads pending recordings (see public/sw.js). */
+export const PENDING_SYNC_TAG = "transcribe-pending";
+/** Posted by the service worker after it has turned pending recordings into notes. */
+export const PENDING_SYNCED_MESSAGE = "pending-recordings-synced";
+
+// Background Sync isn't in TypeScript's DOM types yet (Chromium only).
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/**
+ * Registers the service worker and hands it the files this page loaded, so the
+ * app shell works offline from the first visit. Skipped in development, where
+ * a cached shell would hide code changes.
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+  const registration = await navigator.serviceWorker.register("/sw.js");
+  const worker = registration.active ?? (await navigator.serviceWorker.ready).active;
+  const urls = performance
+    .getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).origin === location.origin && new URL(url).pathname.startsWith("/_next/static/"));
+  worker?.postMessage({ type: "cache-urls", urls: [location.pathname, ...urls] });
+}
+
+/**
+ * Asks the browser to run the pending-recordings sync once it's back online,
+ * even if the page is closed by then. False where Background Sync isn't supported.
+ */
+export async function requestPendingSync(): Promise<boolean> {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return false;
+  try {
+    const registration: SyncRegistration | undefined = await navigator.serviceWorker.getRegistration();
+    if (!registration?.sync) return false;
+    await registration.sync.register(PENDING_SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.warn("Background sync unavailable", error);
+    return false;
+  }
+}
+
+/** Calls `listener` whenever the service worker has synced pending recordings. */
+export function onPendingSynced(listener: () => void): () => void {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === PENDING_SYNCED_MESSAGE) listener();
+  };
+  navigator.serviceWorker.addEventListener("message", onMessage);
+  return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+}
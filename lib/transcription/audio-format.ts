@@ -0,0 +1,68 @@
+/**
+ * Audio containers /api/transcribe accepts, recognised by their leading bytes
+ * rather than by the name or MIME type the client claims.
+ */
+export type AudioContainer = "webm" | "mp4" | "m4a" | "ogg" | "wav" | "mp3";
+
+export interface AudioFormat {
+  container: AudioContainer;
+  /** Extension providers use to tell formats apart (OpenAI goes by filename). */
+  extension: string;
+  mimeType: string;
+}
+
+export const AUDIO_FORMATS: Record<AudioContainer, AudioFormat> = {
+  webm: { container: "webm", extension: "webm", mimeType: "audio/webm" },
+  mp4: { container: "mp4", extension: "mp4", mimeType: "audio/mp4" },
+  m4a: { container: "m4a", extension: "m4a", mimeType: "audio/mp4" },
+  ogg: { container: "ogg", extension: "ogg", mimeType: "audio/ogg" },
+  wav: { container: "wav", extension: "wav", mimeType: "audio/wav" },
+  mp3: { container: "mp3", extension: "mp3", mimeType: "audio/mpeg" },
+};
+
+/** Bytes of the file `sniffAudioFormat` needs to see. */
+export const SNIFF_BYTES = 64;
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/** The container of a file from its first SNIFF_BYTES bytes, if it's one we accept. */
+export function sniffAudioFormat(bytes: Uint8Array): AudioFormat | undefined {
+  // EBML header: WebM (and its parent format Matroska, which providers read as WebM).
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return AUDIO_FORMATS.webm;
+
+  // ISO base media: a "ftyp" box whose major brand tells audio-only M4A apart.
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    return ascii(bytes, 8, 11) === "M4A" ? AUDIO_FORMATS.m4a : AUDIO_FORMATS.mp4;
+  }
+
+  if (ascii(bytes, 0, 4) === "OggS") return AUDIO_FORMATS.ogg;
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WAVE") return AUDIO_FORMATS.wav;
+
+  // MP3: an ID3 tag, or straight into an MPEG audio frame. The frame sync is
+  // 11 set bits; layer bits of 00 would make it AAC (ADTS), which isn't accepted.
+  if (ascii(bytes, 0, 3) === "ID3") return AUDIO_FORMATS.mp3;
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0) return AUDIO_FORMATS.mp3;
+
+  return undefined;
+}
+
+/**
+ * Bytes per second of a WAV file, from the "fmt " chunk that follows its
+ * header (as every WAV the page makes has). Undefined for other files.
+ */
+export function wavByteRate(bytes: Uint8Array): number | undefined {
+  if (ascii(bytes, 0, 4) !== "RIFF" || ascii(bytes, 8, 12) !== "WAVE" || ascii(bytes, 12, 16) !== "fmt ") return undefined;
+  const byteRate = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(28, true);
+  return byteRate > 0 ? byteRate : undefined;
+}
+
+/** Container for a MIME type such as "audio/webm;codecs=opus", for naming uploads. */
+export function formatForMimeType(mimeType: string): AudioFormat | undefined {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  if (type === "audio/x-m4a" || type === "audio/m4a") return AUDIO_FORMATS.m4a;
+  if (type === "audio/x-wav" || type === "audio/wave") return AUDIO_FORMATS.wav;
+  if (type === "audio/mp3") return AUDIO_FORMATS.mp3;
+  return Object.values(AUDIO_FORMATS).find((format) => format.mimeType === type || `video/${format.container}` === type);
+}
@@ -0,0 +1,134 @@
+import { formatForMimeType } from "./audio-format";
+import type { TranscribeErrorCode } from "./types";
+
+/** Browser-side calls to /api/transcribe. */
+export interface TranscriptionResponse {
+  text?: string;
+  translation?: string;
+  language?: string;
+}
+
+/**
+ * What went wrong, as far as the page cares: whether to retry, and what to
+ * tell the user. `network` covers both being offline and a request that never
+ * got an answer.
+ */
+export type TranscriptionFailureKind =
+  | "auth"
+  | "quota"
+  | "rate_limit"
+  | "provider_down"
+  | "bad_audio"
+  | "timeout"
+  | "network";
+
+const KIND_BY_CODE: Record<TranscribeErrorCode, TranscriptionFailureKind> = {
+  unauthorized: "auth",
+  quota_exceeded: "quota",
+  rate_limited: "rate_limit",
+  provider_error: "provider_down",
+  no_provider: "provider_down",
+  internal_error: "provider_down",
+  timeout: "timeout",
+  payload_too_large: "bad_audio",
+  audio_too_long: "bad_audio",
+  missing_audio: "bad_audio",
+  unsupported_format: "bad_audio",
+  bad_audio: "bad_audio",
+  invalid_request: "bad_audio",
+};
+
+const MESSAGES: Record<TranscriptionFailureKind, string> = {
+  auth: "Signed out",
+  quota: "Daily transcription limit reached",
+  rate_limit: "Too many requests",
+  provider_down: "Transcription service unavailable",
+  bad_audio: "Audio couldn't be transcribed",
+  timeout: "Transcription timed out",
+  network: "Offline",
+};
+
+export class TranscriptionRequestError extends Error {
+  constructor(
+    message: string,
+    readonly kind: TranscriptionFailureKind,
+    readonly status?: number,
+    /** From the Retry-After header, when the server sent one. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "TranscriptionRequestError";
+  }
+
+  /** Short text for the UI; the server's own message for bad audio, which says what to fix. */
+  get summary(): string {
+    return this.kind === "bad_audio" ? this.message : MESSAGES[this.kind];
+  }
+}
+
+/** Failures worth trying again later; bad audio fails the same way every time. */
+export function isRetryable(error: unknown): boolean {
+  return !(error instanceof TranscriptionRequestError) || error.kind !== "bad_audio";
+}
+
+/** Failures that may clear up within seconds, so retrying in-place is worthwhile. */
+function isTransient(error: TranscriptionRequestError): boolean {
+  return error.kind === "network" || error.kind === "provider_down" || error.kind === "timeout" || error.kind === "rate_limit";
+}
+
+async function post(formData: FormData): Promise<TranscriptionResponse> {
+  let response: Response;
+  try {
+    response = await fetch("/api/transcribe", { method: "POST", body: formData });
+  } catch (error) {
+    throw new TranscriptionRequestError(error instanceof Error ? error.message : "Network error", "network");
+  }
+
+  // A proxy rejecting a large upload may answer with HTML rather than JSON.
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const kind = KIND_BY_CODE[data.code as TranscribeErrorCode] ?? (response.status >= 500 ? "provider_down" : "bad_audio");
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    throw new TranscriptionRequestError(
+      data.error || `Transcription failed with status ${response.status}`,
+      kind,
+      response.status,
+      retryAfter > 0 ? retryAfter * 1000 : undefined,
+    );
+  }
+  return data;
+}
+
+// The server checks the real format; the name just keeps uploads readable.
+export function audioFilename(blob: Blob): string {
+  return `audio.${formatForMimeType(blob.type)?.extension ?? "webm"}`;
+}
+
+/** Exponential backoff with jitter: ~1s, 2s, 4s… capped at `maxMs`. */
+export function backoffMs(attempt: number, maxMs = 30_000): number {
+  const base = Math.min(maxMs, 1000 * 2 ** attempt);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+/**
+ * Posts to /api/transcribe, retrying transient failures up to `retries` times
+ * with backoff. Waits the server asks for (Retry-After) longer than
+ * `maxWaitMs` are not sat out; the error is thrown for the caller to queue.
+ */
+export async function requestTranscription(
+  formData: FormData,
+  { retries = 2, maxWaitMs = 10_000 }: { retries?: number; maxWaitMs?: number } = {},
+): Promise<TranscriptionResponse> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await post(formData);
+    } catch (error) {
+      if (!(error instanceof TranscriptionRequestError) || !isTransient(error) || attempt >= retries) throw error;
+      if (error.kind === "network" && !navigator.onLine) throw error;
+
+      const wait = error.retryAfterMs ?? backoffMs(attempt);
+      if (wait > maxWaitMs) throw error;
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { ApiError, createPartFromBase64, type GenerateContentResponse } from "@google/genai";
+import { getGemini } from "../gemini";
+import { languageLabel, normalizeLanguage, type TranscriptionLanguage } from "./languages";
+import { TranscriptionError, providerFailure, type TranscriptionProvider } from "./types";
+
+function buildPrompt(language: TranscriptionLanguage | undefined, translate: boolean | undefined): string {
+  const lines = ["Transcribe this audio verbatim."];
+  if (language === "hinglish") {
+    lines.push("The speaker mixes Hindi and English; write everything in Roman script.");
+  } else if (language && language !== "auto") {
+    lines.push(`The speaker is talking in ${languageLabel(language)}.`);
+  }
+  if (translate) {
+    lines.push("Also translate the transcript to English unless it already is English.");
+  }
+  lines.push(
+    'Reply with JSON only: {"transcript": string, "language": ISO-639-1 code, "translation": string or null}.',
+  );
+  return lines.join(" ");
+}
+
+// Gemini answers 400 both for audio it can't take and for a bad API key, so
+// the message is what tells a problem with the audio apart.
+const AUDIO_STATUSES = [400, 413, 415, 422];
+const AUDIO_PROBLEM = /audio|mime|media|file|inline data/i;
+
+function geminiFailure(error: unknown): TranscriptionError {
+  if (error instanceof ApiError) {
+    const badAudio = AUDIO_STATUSES.includes(error.status) && AUDIO_PROBLEM.test(error.message) && !/api key/i.test(error.message);
+    return providerFailure("gemini", error.message, error.status, { badAudio });
+  }
+  // No answer at all: a network failure, or no API key configured.
+  return providerFailure("gemini", error instanceof Error ? error.message : "Gemini request failed", undefined);
+}
+
+export const geminiProvider: TranscriptionProvider = {
+  id: "gemini",
+  async transcribe({ audio, language, translate }) {
+    const data = Buffer.from(await audio.arrayBuffer()).toString("base64");
+    let response: GenerateContentResponse;
+    try {
+      response = await getGemini().models.generateContent({
+        model: process.env.GEMINI_TRANSCRIPTION_MODEL || "gemini-2.5-flash",
+        contents: [buildPrompt(language, translate), createPartFromBase64(data, audio.type || "audio/webm")],
+        config: { responseMimeType: "application/json" },
+      });
+    } catch (error) {
+      throw geminiFailure(error);
+    }
+
+    if (response.text === undefined) {
+      throw new TranscriptionError("Gemini returned no transcript", 502, "gemini");
+    }
+
+    let parsed: { transcript?: string; language?: string; translation?: string | null };
+    try {
+      parsed = JSON.parse(response.text);
+    } catch {
+      throw new TranscriptionError("Gemini returned malformed JSON", 502, "gemini");
+    }
+
+    const requested = language && language !== "auto" ? language : undefined;
+    const detected = requested ?? normalizeLanguage(parsed.language);
+    return {
+      text: (parsed.transcript ?? "").trim(),
+      provider: "gemini",
+      language: detected,
+      translation: translate && detected !== "en" ? parsed.translation?.trim() || undefined : undefined,
+    };
+  },
+};
@@ -0,0 +1,45 @@
+import { chooseProviders, firstToSucceed, providerTimeout } from "@/lib/providers";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { openaiProvider } from "./openai";
+import {
+  TranscriptionError,
+  type TranscriptionProvider,
+  type TranscriptionProviderId,
+  type TranscriptionRequest,
+  type TranscriptionResult,
+} from "./types";
+
+export * from "./types";
+
+const providers: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Providers to try, in order. TRANSCRIPTION_PROVIDERS is a comma-separated list
+ * such as "openai,gemini"; when unset, every vendor with an API key is used.
+ */
+export function getTranscriptionProviders(): TranscriptionProvider[] {
+  return chooseProviders(providers, "TRANSCRIPTION_PROVIDERS", "transcription");
+}
+
+/**
+ * Transcribes with the first provider that succeeds, failing over on errors.
+ * Each provider gets TRANSCRIPTION_TIMEOUT_MS (default 60s) to answer.
+ */
+export async function transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+  const chain = getTranscriptionProviders();
+  if (chain.length === 0) {
+    throw new TranscriptionError("No transcription provider is configured", 503, undefined, "no_provider");
+  }
+
+  const timeoutMs = providerTimeout("TRANSCRIPTION_TIMEOUT_MS");
+  return firstToSucceed(chain, (provider) => provider.transcribe(request), {
+    label: "Transcription",
+    timeoutMs,
+    timedOut: (provider) => new TranscriptionError(`Transcription timed out after ${timeoutMs / 1000}s`, 504, provider.id, "timeout"),
+  });
+}
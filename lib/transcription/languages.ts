@@ -0,0 +1,46 @@
+/**
+ * Languages offered in the voice picker. Codes are ISO-639-1 (what Whisper's
+ * `language` field takes) except "auto" and "hinglish", which have no code of
+ * their own and are handled by the providers.
+ */
+export const TRANSCRIPTION_LANGUAGES = [
+  { code: "auto", label: "Auto-detect", name: "" },
+  { code: "hi", label: "Hindi", name: "hindi" },
+  { code: "en", label: "English", name: "english" },
+  { code: "hinglish", label: "Hinglish", name: "hinglish" },
+  { code: "mr", label: "Marathi", name: "marathi" },
+  { code: "bn", label: "Bengali", name: "bengali" },
+  { code: "gu", label: "Gujarati", name: "gujarati" },
+  { code: "pa", label: "Punjabi", name: "punjabi" },
+  { code: "ta", label: "Tamil", name: "tamil" },
+  { code: "te", label: "Telugu", name: "telugu" },
+  { code: "kn", label: "Kannada", name: "kannada" },
+  { code: "ml", label: "Malayalam", name: "malayalam" },
+  { code: "ur", label: "Urdu", name: "urdu" },
+  { code: "es", label: "Spanish", name: "spanish" },
+  { code: "fr", label: "French", name: "french" },
+  { code: "de", label: "German", name: "german" },
+] as const;
+
+export type TranscriptionLanguage = (typeof TRANSCRIPTION_LANGUAGES)[number]["code"];
+
+export function isTranscriptionLanguage(value: unknown): value is TranscriptionLanguage {
+  return TRANSCRIPTION_LANGUAGES.some((language) => language.code === value);
+}
+
+/** Maps a provider's language name ("hindi") or code ("hi") to our code, if we know it. */
+export function normalizeLanguage(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const lower = value.trim().toLowerCase();
+  const match = TRANSCRIPTION_LANGUAGES.find((language) => language.code === lower || language.name === lower);
+  return match?.code ?? lower;
+}
+
+export function languageLabel(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  return TRANSCRIPTION_LANGUAGES.find((language) => language.code === code)?.label ?? code;
+}
+
+/** Prompt that steers Whisper to romanised, code-switched Hindi/English. */
+export const HINGLISH_PROMPT =
+  "Hinglish, Hindi aur English mix, Roman script mein likha hua. Haan, kal meeting hai, main notes bhej dunga.";
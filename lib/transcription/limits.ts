@@ -0,0 +1,59 @@
+/**
+ * Guards on /api/transcribe, read from the environment on each request:
+ *
+ *   MAX_UPLOAD_MB                 largest audio file accepted (default 25, Whisper's limit)
+ *   MAX_AUDIO_SECONDS             longest audio accepted, by estimate (default 600)
+ *   DAILY_TRANSCRIPTION_MINUTES   audio each user may transcribe per UTC day (default 60)
+ *   TRANSCRIBE_RATE_LIMIT         requests per minute per user (default 30)
+ *   TRANSCRIBE_RATE_LIMIT_CLIENT  requests per minute per client IP (default 60)
+ *
+ * Set a limit to 0 to turn it off.
+ */
+export interface TranscriptionLimits {
+  maxUploadBytes: number;
+  maxAudioSeconds: number;
+  dailySeconds: number;
+  userRequestsPerMinute: number;
+  clientRequestsPerMinute: number;
+}
+
+/** A non-negative number from the environment, or `fallback` when unset or invalid. */
+export function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getTranscriptionLimits(): TranscriptionLimits {
+  return {
+    maxUploadBytes: envNumber("MAX_UPLOAD_MB", 25) * 1024 * 1024,
+    maxAudioSeconds: envNumber("MAX_AUDIO_SECONDS", 600),
+    dailySeconds: envNumber("DAILY_TRANSCRIPTION_MINUTES", 60) * 60,
+    userRequestsPerMinute: envNumber("TRANSCRIBE_RATE_LIMIT", 30),
+    clientRequestsPerMinute: envNumber("TRANSCRIBE_RATE_LIMIT_CLIENT", 60),
+  };
+}
+
+// 256 kbps: above any compressed voice recording the page makes, so sizing a
+// file by it never overstates its length.
+const MAX_BYTES_PER_SECOND = 32_000;
+// 16 kbps: below what browsers and voice recorders encode speech at, so sizing
+// a file by it never understates its length.
+const MIN_BYTES_PER_SECOND = 2_000;
+
+/**
+ * A coarse guess at an upload's length in seconds, made before it has been
+ * transcribed, for MAX_AUDIO_SECONDS and the daily quota. Only a WAV file
+ * gives its bitrate (`bytesPerSecond`, see wavByteRate). For compressed audio
+ * the length the client declares is used, but never as less than the file
+ * size allows at 256 kbps. Without one, the size is read at 16 kbps, so
+ * leaving it out never helps. Below 256 kbps a client can still understate a
+ * compressed file; usage is recorded afterwards from the provider's own
+ * duration where it reports one.
+ */
+export function estimateAudioSeconds(bytes: number, declaredMs?: number, bytesPerSecond?: number): number {
+  if (bytesPerSecond) return bytes / bytesPerSecond;
+  const declared = declaredMs !== undefined && Number.isFinite(declaredMs) && declaredMs > 0 ? declaredMs / 1000 : 0;
+  if (!declared) return bytes / MIN_BYTES_PER_SECOND;
+  return Math.max(bytes / MAX_BYTES_PER_SECOND, declared);
+}
@@ -0,0 +1,24 @@
+import type { TranscriptionProvider } from "./types";
+
+/**
+ * Offline stand-in for local development and tests. Returns
+ * MOCK_TRANSCRIPTION_TEXT (or a description of the upload) after an optional
+ * MOCK_TRANSCRIPTION_DELAY_MS, without touching the network. Translations are
+ * the same text tagged "[en]".
+ */
+export const mockProvider: TranscriptionProvider = {
+  id: "mock",
+  async transcribe({ audio, filename, language, translate }) {
+    const delay = Number(process.env.MOCK_TRANSCRIPTION_DELAY_MS) || 0;
+    if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+    const text = process.env.MOCK_TRANSCRIPTION_TEXT ?? `Mock transcript of ${filename} (${audio.size} bytes)`;
+    const detected = language && language !== "auto" ? language : "en";
+    return {
+      text,
+      provider: "mock",
+      language: detected,
+      translation: translate && detected !== "en" ? `[en] ${text}` : undefined,
+    };
+  },
+};
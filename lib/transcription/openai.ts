@@ -0,0 +1,56 @@
+import { APIError, toFile } from "openai";
+import { getOpenAI } from "../openai";
+import { HINGLISH_PROMPT, normalizeLanguage, type TranscriptionLanguage } from "./languages";
+import { providerFailure, type TranscriptionProvider } from "./types";
+
+function languageOptions(language: TranscriptionLanguage | undefined): { language?: string; prompt?: string } {
+  if (!language || language === "auto") return {};
+  if (language === "hinglish") return { prompt: HINGLISH_PROMPT };
+  return { language };
+}
+
+export const openaiProvider: TranscriptionProvider = {
+  id: "openai",
+  async transcribe({ audio, filename, language, translate }) {
+    const openai = getOpenAI();
+    const model = process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1";
+
+    try {
+      // Only Whisper reports the detected language (via verbose_json).
+      const transcription = model.startsWith("whisper")
+        ? await openai.audio.transcriptions.create({
+            file: await toFile(audio, filename),
+            model,
+            response_format: "verbose_json",
+            ...languageOptions(language),
+          })
+        : await openai.audio.transcriptions.create({
+            file: await toFile(audio, filename),
+            model,
+            ...languageOptions(language),
+          });
+
+      const requested = language && language !== "auto" ? language : undefined;
+      const detected = requested ?? normalizeLanguage("language" in transcription ? transcription.language : undefined);
+
+      // The translations endpoint only exists for whisper-1.
+      let translation: string | undefined;
+      if (translate && detected !== "en") {
+        const translated = await openai.audio.translations.create({
+          file: await toFile(audio, filename),
+          model: "whisper-1",
+        });
+        translation = translated.text;
+      }
+
+      const durationSeconds = "duration" in transcription ? transcription.duration : undefined;
+      return { text: transcription.text, provider: "openai", language: detected, translation, durationSeconds };
+    } catch (error) {
+      if (error instanceof APIError) {
+        // 400 is OpenAI's answer to audio it can't decode or that is too short.
+        throw providerFailure("openai", error.message, error.status, { badAudio: error.status === 400 });
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Partial transcripts for recordings uploaded in segments. Kept in process
+ * memory, so a session only stitches correctly when every segment reaches the
+ * same server instance; idle sessions are dropped after SESSION_TTL_MS.
+ */
+export interface SegmentTranscript {
+  text: string;
+  language?: string;
+  translation?: string;
+}
+
+interface Session {
+  segments: Map<number, SegmentTranscript>;
+  touchedAt: number;
+}
+
+const SESSION_TTL_MS = 30 * 60 * 1000;
+
+const sessions = new Map<string, Session>();
+
+function sweep(now: number) {
+  for (const [id, session] of sessions) {
+    if (now - session.touchedAt > SESSION_TTL_MS) sessions.delete(id);
+  }
+}
+
+function join(parts: (string | undefined)[]): string {
+  return parts
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+// The session's language is the first one any segment reported.
+function stitch(session: Session): SegmentTranscript {
+  const segments = [...session.segments.entries()].sort(([a], [b]) => a - b).map(([, segment]) => segment);
+  const translated = segments.some((segment) => segment.translation);
+  return {
+    text: join(segments.map((segment) => segment.text)),
+    language: segments.find((segment) => segment.language)?.language,
+    translation: translated ? join(segments.map((segment) => segment.translation ?? segment.text)) : undefined,
+  };
+}
+
+/** Records the transcript of one segment and returns the whole transcript so far. */
+export function addSegment(sessionId: string, sequence: number, segment: SegmentTranscript): SegmentTranscript {
+  const now = Date.now();
+  sweep(now);
+
+  let session = sessions.get(sessionId);
+  if (!session) {
+    session = { segments: new Map(), touchedAt: now };
+    sessions.set(sessionId, session);
+  }
+  session.segments.set(sequence, segment);
+  session.touchedAt = now;
+  return stitch(session);
+}
+
+/** Returns the stitched transcript and forgets the session. */
+export function finishSession(sessionId: string): SegmentTranscript {
+  const session = sessions.get(sessionId);
+  sessions.delete(sessionId);
+  return session ? stitch(session) : { text: "" };
+}
@@ -0,0 +1,72 @@
+import { gatewayStatus } from "@/lib/providers";
+import type { TranscriptionLanguage } from "./languages";
+
+export type TranscriptionProviderId = "openai" | "gemini" | "mock";
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  filename: string;
+  /** Spoken language; "auto" (the default) lets the provider detect it. */
+  language?: TranscriptionLanguage;
+  /** Also translate the transcript to English. */
+  translate?: boolean;
+}
+
+export interface TranscriptionResult {
+  /** Transcript in the spoken language. */
+  text: string;
+  provider: TranscriptionProviderId;
+  /** Language code (see languages.ts) the provider detected or was told. */
+  language?: string;
+  /** English translation, when one was requested and the speech wasn't English. */
+  translation?: string;
+  /** Length of the audio, when the provider reports it. */
+  durationSeconds?: number;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+/** Machine-readable `code` sent with every /api/transcribe error response. */
+export type TranscribeErrorCode =
+  | "unauthorized"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "payload_too_large"
+  | "audio_too_long"
+  | "missing_audio"
+  | "unsupported_format"
+  | "bad_audio"
+  | "invalid_request"
+  | "provider_error"
+  | "no_provider"
+  | "timeout"
+  | "internal_error";
+
+export class TranscriptionError extends Error {
+  constructor(
+    message: string,
+    readonly status = 502,
+    readonly provider?: TranscriptionProviderId,
+    readonly code: TranscribeErrorCode = "provider_error",
+  ) {
+    super(message);
+    this.name = "TranscriptionError";
+  }
+}
+
+/**
+ * Our error for a provider's failed call (see gatewayStatus). Audio it rejected
+ * is the client's to fix, so it is a 422 rather than a gateway error.
+ */
+export function providerFailure(
+  provider: TranscriptionProviderId,
+  message: string,
+  status: number | undefined,
+  { badAudio = false } = {},
+): TranscriptionError {
+  if (badAudio) return new TranscriptionError(message, 422, provider, "bad_audio");
+  return new TranscriptionError(message, gatewayStatus(status), provider);
+}
@@ -0,0 +1,263 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { createQueue, dataPath, readJsonFile, writeJsonFile } from "@/lib/json-file";
+import type { TranscriptionProviderId } from "@/lib/transcription/types";
+
+/**
+ * Transcription usage. Each request is appended to `usage-log.jsonl`, and
+ * per-user running totals (including seconds per UTC day, for the daily quota)
+ * are kept in `usage.json` so quota checks don't have to read the log.
+ *
+ * Requests to the text AI routes (clean-up and summaries, Ask, related notes)
+ * are counted per user and day in the same totals, and logged to
+ * `ai-usage-log.jsonl`.
+ */
+export interface UsageEntry {
+  at: number;
+  userId: string;
+  provider: TranscriptionProviderId;
+  seconds: number;
+  bytes: number;
+  translated: boolean;
+  /** Estimated provider charge, from COST_PER_MINUTE_USD. */
+  costUsd: number;
+}
+
+export interface Usage {
+  transcriptions: number;
+  audioBytes: number;
+  audioSeconds: number;
+  costUsd: number;
+  lastUsedAt?: number;
+  /** Seconds transcribed per UTC day ("2026-03-01"), for the last DAYS_KEPT days. */
+  daily: Record<string, number>;
+  aiRequests: number;
+  /** Text AI requests per UTC day, for the last DAYS_KEPT days. */
+  aiDaily: Record<string, number>;
+}
+
+/** The routes that call a text model or embed text for a user. */
+export type AiAction = "process" | "ask" | "related";
+
+export interface AiUsageEntry {
+  at: number;
+  userId: string;
+  action: AiAction;
+  /** Provider that answered. Failed requests count against the quota but aren't logged. */
+  provider: string;
+  /** Characters of the request's own text sent to the provider. */
+  characters: number;
+}
+
+// List prices per audio minute at the time of writing. Gemini bills audio as
+// tokens (32 per second); this is 2.5 Flash input plus a typical reply.
+export const COST_PER_MINUTE_USD: Record<TranscriptionProviderId, number> = {
+  openai: 0.006,
+  gemini: 0.002,
+  mock: 0,
+};
+
+const DAYS_KEPT = 31;
+
+const EMPTY_USAGE: Usage = { transcriptions: 0, audioBytes: 0, audioSeconds: 0, costUsd: 0, daily: {}, aiRequests: 0, aiDaily: {} };
+
+function usageFile(): string {
+  return dataPath("usage.json");
+}
+
+function logFile(): string {
+  return dataPath("usage-log.jsonl");
+}
+
+function aiLogFile(): string {
+  return dataPath("ai-usage-log.jsonl");
+}
+
+const queue = createQueue();
+
+export function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** Until the daily quotas reset, for Retry-After. */
+export function secondsUntilUtcMidnight(now = Date.now()): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+// Per-day counts older than DAYS_KEPT are dropped as new days are added.
+function addToDay(daily: Record<string, number>, amount: number, now: number): Record<string, number> {
+  const today = utcDay(now);
+  const oldest = utcDay(now - DAYS_KEPT * 24 * 60 * 60 * 1000);
+  return Object.fromEntries(
+    Object.entries({ ...daily, [today]: (daily[today] ?? 0) + amount }).filter(([day]) => day > oldest),
+  );
+}
+
+// Totals written before seconds and costs were tracked lack those fields.
+async function readUsage(): Promise<Record<string, Usage>> {
+  const usage = await readJsonFile<Record<string, Partial<Usage>>>(usageFile(), {});
+  return Object.fromEntries(Object.entries(usage).map(([userId, totals]) => [userId, { ...EMPTY_USAGE, ...totals }]));
+}
+
+export async function getUsage(userId: string): Promise<Usage> {
+  await queue.idle();
+  return (await readUsage())[userId] ?? EMPTY_USAGE;
+}
+
+// Seconds held per user for transcriptions still running, so parallel uploads
+// can't all pass the quota check before any of them is recorded.
+const reserved = new Map<string, number>();
+
+/**
+ * Holds `seconds` of today's quota for a transcription about to start. False,
+ * holding nothing, when that would take the user past `limit`. Each
+ * reservation is given back with releaseSeconds once the transcription has
+ * been recorded or has failed.
+ */
+export function reserveSeconds(userId: string, seconds: number, limit: number, now = Date.now()): Promise<boolean> {
+  return queue.run(async () => {
+    const used = ((await readUsage())[userId]?.daily[utcDay(now)] ?? 0) + (reserved.get(userId) ?? 0);
+    if (used + seconds > limit) return false;
+    reserved.set(userId, (reserved.get(userId) ?? 0) + seconds);
+    return true;
+  });
+}
+
+export function releaseSeconds(userId: string, seconds: number) {
+  const left = (reserved.get(userId) ?? 0) - seconds;
+  if (left > 0) reserved.set(userId, left);
+  else reserved.delete(userId);
+}
+
+export function estimateCost(provider: TranscriptionProviderId, seconds: number, translated: boolean): number {
+  // OpenAI translation is a second pass over the same audio.
+  const passes = translated && provider === "openai" ? 2 : 1;
+  return (seconds / 60) * COST_PER_MINUTE_USD[provider] * passes;
+}
+
+export function recordTranscription(
+  userId: string,
+  details: { provider: TranscriptionProviderId; seconds: number; bytes: number; translated: boolean },
+): Promise<UsageEntry> {
+  return queue.run(async () => {
+    const now = Date.now();
+    const entry: UsageEntry = { at: now, userId, ...details, costUsd: estimateCost(details.provider, details.seconds, details.translated) };
+
+    const usage = await readUsage();
+    const current = usage[userId] ?? EMPTY_USAGE;
+    usage[userId] = {
+      ...current,
+      transcriptions: current.transcriptions + 1,
+      audioBytes: current.audioBytes + entry.bytes,
+      audioSeconds: current.audioSeconds + entry.seconds,
+      costUsd: current.costUsd + entry.costUsd,
+      lastUsedAt: now,
+      daily: addToDay(current.daily, entry.seconds, now),
+    };
+    await writeJsonFile(usageFile(), usage);
+
+    await mkdir(path.dirname(logFile()), { recursive: true });
+    await appendFile(logFile(), `${JSON.stringify(entry)}\n`);
+    return entry;
+  });
+}
+
+/**
+ * Counts a text AI request against the user's day. False, counting nothing,
+ * once `limit` requests have been made today; a limit of 0 disables the check.
+ * Requests are counted before the provider is called, so failed ones count too.
+ */
+export function takeAiRequest(userId: string, limit: number, now = Date.now()): Promise<boolean> {
+  return queue.run(async () => {
+    const usage = await readUsage();
+    const current = usage[userId] ?? EMPTY_USAGE;
+    if (limit > 0 && (current.aiDaily[utcDay(now)] ?? 0) >= limit) return false;
+
+    usage[userId] = { ...current, aiRequests: current.aiRequests + 1, aiDaily: addToDay(current.aiDaily, 1, now) };
+    await writeJsonFile(usageFile(), usage);
+    return true;
+  });
+}
+
+export function logAiRequest(userId: string, details: Pick<AiUsageEntry, "action" | "provider" | "characters">): Promise<AiUsageEntry> {
+  return queue.run(async () => {
+    const entry: AiUsageEntry = { at: Date.now(), userId, ...details };
+    await mkdir(path.dirname(aiLogFile()), { recursive: true });
+    await appendFile(aiLogFile(), `${JSON.stringify(entry)}\n`);
+    return entry;
+  });
+}
+
+export interface UsageTotals {
+  requests: number;
+  seconds: number;
+  bytes: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  since: number;
+  totals: UsageTotals;
+  byUser: (UsageTotals & { userId: string; lastUsedAt: number })[];
+  byProvider: (UsageTotals & { provider: TranscriptionProviderId })[];
+  byDay: (UsageTotals & { day: string })[];
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry) {
+  totals.requests += 1;
+  totals.seconds += entry.seconds;
+  totals.bytes += entry.bytes;
+  totals.costUsd += entry.costUsd;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, seconds: 0, bytes: 0, costUsd: 0 };
+}
+
+/** Log entries since `since`, grouped by user, provider and UTC day. */
+export async function summarizeUsage(since: number): Promise<UsageSummary> {
+  await queue.idle();
+  let raw = "";
+  try {
+    raw = await readFile(logFile(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  const totals = emptyTotals();
+  const byUser = new Map<string, UsageTotals & { userId: string; lastUsedAt: number }>();
+  const byProvider = new Map<TranscriptionProviderId, UsageTotals & { provider: TranscriptionProviderId }>();
+  const byDay = new Map<string, UsageTotals & { day: string }>();
+
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const entry = JSON.parse(line) as UsageEntry;
+    if (entry.at < since) continue;
+
+    addTo(totals, entry);
+
+    const user = byUser.get(entry.userId) ?? { ...emptyTotals(), userId: entry.userId, lastUsedAt: 0 };
+    addTo(user, entry);
+    user.lastUsedAt = Math.max(user.lastUsedAt, entry.at);
+    byUser.set(entry.userId, user);
+
+    const provider = byProvider.get(entry.provider) ?? { ...emptyTotals(), provider: entry.provider };
+    addTo(provider, entry);
+    byProvider.set(entry.provider, provider);
+
+    const day = utcDay(entry.at);
+    const daily = byDay.get(day) ?? { ...emptyTotals(), day };
+    addTo(daily, entry);
+    byDay.set(day, daily);
+  }
+
+  return {
+    since,
+    totals,
+    byUser: [...byUser.values()].sort((a, b) => b.costUsd - a.costUsd || b.seconds - a.seconds),
+    byProvider: [...byProvider.values()].sort((a, b) => b.requests - a.requests),
+    byDay: [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day)),
+  };
+}
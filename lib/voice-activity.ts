@@ -0,0 +1,93 @@
+/**
+ * Voice activity detection from microphone levels: enough to draw a meter,
+ * notice when the speaker has stopped and cut silence off a recording.
+ * Levels are RMS amplitudes of float samples, 0 (silence) to 1 (full scale).
+ */
+
+/** Quietest level ever counted as speech, however quiet the room. */
+const MIN_SPEECH_LEVEL = 0.01;
+/** Speech has to stand this far above the room's background noise. */
+const SPEECH_TO_NOISE = 3;
+
+export function rmsLevel(samples: Float32Array): number {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/** A level mapped onto 0–1 on a decibel scale, for drawing a meter. */
+export function meterLevel(level: number): number {
+  const db = 20 * Math.log10(Math.max(level, 1e-5));
+  return Math.min(1, Math.max(0, (db + 60) / 60));
+}
+
+export interface SilenceDetectorOptions {
+  /** Silence after speech that ends the take. */
+  silenceMs: number;
+  /** How long to wait for any speech at all before giving up. */
+  noSpeechMs: number;
+}
+
+export interface VoiceActivity {
+  speaking: boolean;
+  /** Whether the take should end: sustained silence, or no speech at all. */
+  done: boolean;
+}
+
+/**
+ * Follows a live stream of levels. The noise floor falls at once to quieter
+ * input and creeps up slowly, so a steady hum is learned but speech isn't.
+ */
+export class SilenceDetector {
+  private noiseFloor = MIN_SPEECH_LEVEL / SPEECH_TO_NOISE;
+  private startedAt: number | undefined;
+  private heardSpeech = false;
+  private lastSpeechAt = 0;
+
+  constructor(private readonly options: SilenceDetectorOptions) {}
+
+  update(level: number, now: number): VoiceActivity {
+    this.startedAt ??= now;
+    const speaking = level > Math.max(MIN_SPEECH_LEVEL, this.noiseFloor * SPEECH_TO_NOISE);
+    if (speaking) {
+      this.heardSpeech = true;
+      this.lastSpeechAt = now;
+    } else {
+      this.noiseFloor = level < this.noiseFloor ? level : this.noiseFloor * 0.95 + level * 0.05;
+    }
+
+    const done = this.heardSpeech
+      ? now - this.lastSpeechAt >= this.options.silenceMs
+      : now - this.startedAt >= this.options.noSpeechMs;
+    return { speaking, done };
+  }
+}
+
+const FRAME_MS = 20;
+/** Kept either side of the speech so words aren't clipped. */
+const PAD_MS = 250;
+
+/**
+ * Sample range of `samples` holding speech, judged against the recording's
+ * own quieter frames; undefined when it's silent throughout.
+ */
+export function speechBounds(samples: Float32Array, sampleRate: number): { start: number; end: number } | undefined {
+  const frame = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frame) {
+    levels.push(rmsLevel(samples.subarray(offset, offset + frame)));
+  }
+  if (levels.length === 0) return undefined;
+
+  const noise = [...levels].sort((a, b) => a - b)[Math.floor(levels.length * 0.1)];
+  const threshold = Math.max(MIN_SPEECH_LEVEL, noise * SPEECH_TO_NOISE);
+  const first = levels.findIndex((level) => level > threshold);
+  if (first === -1) return undefined;
+  const last = levels.findLastIndex((level) => level > threshold);
+
+  const pad = Math.round((sampleRate * PAD_MS) / 1000);
+  return {
+    start: Math.max(0, first * frame - pad),
+    end: Math.min(samples.length, (last + 1) * frame + pad),
+  };
+}
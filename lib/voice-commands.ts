@@ -0,0 +1,144 @@
+import { tokenize } from "./notes/search";
+import type { Note } from "./notes/types";
+
+/** Which note a spoken command refers to. */
+export type NoteTarget = { kind: "last" } | { kind: "about"; topic: string };
+
+export type VoiceCommand =
+  | { type: "append"; target: NoteTarget; text: string }
+  | { type: "replace"; target: NoteTarget; text: string }
+  | { type: "delete"; target: NoteTarget }
+  | { type: "checklist"; target: NoteTarget };
+
+// "the last note", "that", "my previous note", "the note about groceries"...
+const TARGET = String.raw`(?:(?:the|my|that|this)\s+)?(?:(?:last|latest|previous)\s+note|note\s+(?:about|on|for|called)\s+(?<topic>.+?)|that|it|this)`;
+const SEPARATOR = String.raw`\s*(?:[,:;.-]\s*|\s+(?:saying|that says)\s+)`;
+
+const PATTERNS: [VoiceCommand["type"], RegExp][] = [
+  ["append", new RegExp(String.raw`^(?:append|add)(?:\s+this)?\s+to\s+${TARGET}${SEPARATOR}(?<text>.+)$`, "isu")],
+  ["replace", new RegExp(String.raw`^(?:change|replace|rewrite|edit)\s+${TARGET}\s+(?:to|with)\s+(?<text>.+)$`, "isu")],
+  ["delete", new RegExp(String.raw`^(?:delete|remove|trash|discard)\s+${TARGET}$`, "isu")],
+  [
+    "checklist",
+    new RegExp(String.raw`^(?:make|turn|convert)\s+${TARGET}\s+(?:into\s+)?(?:a\s+)?(?:checklist|check list|to-?do list|todo)$`, "isu"),
+  ],
+];
+
+/**
+ * Recognises a transcript that is an instruction about an existing note
+ * rather than a note itself. Returns null for ordinary dictation.
+ */
+export function parseVoiceCommand(transcript: string): VoiceCommand | null {
+  const spoken = transcript.trim().replace(/[.!?।]+$/u, "");
+
+  for (const [type, pattern] of PATTERNS) {
+    const match = spoken.match(pattern);
+    if (!match?.groups) continue;
+
+    const topic = match.groups.topic?.trim();
+    const target: NoteTarget = topic ? { kind: "about", topic } : { kind: "last" };
+    const text = match.groups.text?.trim();
+
+    switch (type) {
+      case "append":
+      case "replace":
+        if (text) return { type, target, text: capitalise(text) };
+        break;
+      case "delete":
+      case "checklist":
+        return { type, target };
+    }
+  }
+  return null;
+}
+
+function capitalise(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const STOPWORDS = new Set(["a", "an", "the", "my", "of", "for", "to", "and", "with", "about", "on", "in"]);
+
+// Crude English plural/tense folding, enough for "grocery" to find "groceries".
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(?:ies|es|s|ing|ed)$/, (suffix) => (suffix === "ies" ? "y" : "")) : word;
+}
+
+/**
+ * "last" is the most recently edited note; "about" picks the note matching
+ * the most topic words (stemmed, or as prefixes), most recently edited first
+ * on ties.
+ */
+export function resolveTarget(target: NoteTarget, notes: Note[]): Note | undefined {
+  const byRecency = [...notes].sort((a, b) => b.updatedAt - a.updatedAt);
+  if (target.kind === "last") return byRecency[0];
+
+  const words = tokenize(target.topic)
+    .filter((word) => !STOPWORDS.has(word))
+    .map(stem);
+  if (words.length === 0) return undefined;
+
+  let best: Note | undefined;
+  let bestScore = 0;
+  for (const note of byRecency) {
+    const tokens = tokenize(`${note.title ?? ""} ${note.content}`).map(stem);
+    const score = words.filter((word) => tokens.some((token) => token.startsWith(word))).length;
+    if (score > bestScore) {
+      best = note;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+const CHECKLIST_ITEM = /^\s*[-*]\s+\[[ xX]\]\s+/;
+
+/**
+ * Turns a note into "- [ ] item" lines. Multi-line notes get one item per
+ * line; a single line is split on commas and "and", keeping any "Heading:"
+ * before the list as its own line.
+ */
+export function toChecklist(content: string): string {
+  const lines = content.split("\n").map((line) => line.trim()).filter(Boolean);
+  let heading: string | undefined;
+  let items = lines;
+
+  if (lines.length === 1) {
+    const [, before, after] = lines[0].match(/^([^:]{1,60}):\s*(.+)$/) ?? [];
+    heading = after ? `${before}:` : undefined;
+    items = (after ?? lines[0])
+      .split(/,|;|\s+and\s+/i)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  const checklist = items.map((item) => {
+    if (CHECKLIST_ITEM.test(item)) return item;
+    const text = item.replace(/^(?:[-*•]|\d+[.)])\s+/, "").replace(/[.]$/, "");
+    return `- [ ] ${capitalise(text)}`;
+  });
+  return [heading, ...checklist].filter(Boolean).join("\n");
+}
+
+/**
+ * The new content an editing command gives its note, with the message shown
+ * alongside its undo. "delete" isn't an edit: the page moves the note to the trash.
+ */
+export function commandEdit(
+  command: Exclude<VoiceCommand, { type: "delete" }>,
+  note: Note,
+): { content: string; message: string } {
+  const label = describeNote(note);
+  switch (command.type) {
+    case "append":
+      return { content: `${note.content}\n${command.text}`, message: `Added to "${label}"` };
+    case "replace":
+      return { content: command.text, message: `Rewrote "${label}"` };
+    case "checklist":
+      return { content: toChecklist(note.content), message: `"${label}" is now a checklist` };
+  }
+}
+
+export function describeNote(note: Note, length = 32): string {
+  const text = (note.title || note.content).replace(/\s+/g, " ").trim();
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
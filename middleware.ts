@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySession } from '@/lib/auth/session';
+
+// Sign-in itself has to work without a session.
+const PUBLIC_API_PREFIX = '/api/auth/';
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (pathname.startsWith(PUBLIC_API_PREFIX)) return NextResponse.next();
+
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) return NextResponse.next();
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Sign in required', code: 'unauthorized' }, { status: 401 });
+  }
+  return NextResponse.redirect(new URL('/login', request.url));
+}
+
+export const config = {
+  matcher: ['/', '/api/:path*'],
+};
@@ -0,0 +1,260 @@
+/**
+ * Service worker: keeps the app shell for offline use and uploads recordings
+ * left in the pending queue once the browser is back online (Background Sync).
+ * Also brings the app forward when a reminder notification is clicked.
+ * The page side is lib/service-worker.ts. This file is served as-is, so the
+ * bits of lib/idb.ts and hooks/use-pending-recordings.ts it needs are repeated here.
+ */
+
+const CACHE = 'brutalist-notes-v1';
+const SHELL = ['/', '/login', '/manifest.webmanifest', '/icons/192', '/icons/512'];
+
+const PENDING_SYNC_TAG = 'transcribe-pending';
+const PENDING_SYNCED_MESSAGE = 'pending-recordings-synced';
+// Held by whichever of the page and this worker is working the queue.
+const LOCK_NAME = 'brutalist-notes-pending';
+const DB_NAME = 'brutalist-notes';
+
+const EXTENSIONS = { 'audio/webm': 'webm', 'audio/mp4': 'mp4', 'audio/ogg': 'ogg', 'audio/wav': 'wav', 'audio/mpeg': 'mp3' };
+const MESSAGES = {
+  quota: 'Daily transcription limit reached',
+  rate_limit: 'Too many requests',
+  provider_down: 'Transcription service unavailable',
+  timeout: 'Transcription timed out',
+};
+
+// --- App shell ---
+
+// Pages behind a redirect (to /login when signed out) or an error aren't kept.
+function cacheable(response) {
+  return response.ok && !response.redirected && response.type === 'basic';
+}
+
+async function cacheUrls(urls) {
+  const cache = await caches.open(CACHE);
+  await Promise.all(
+    urls.map(async (url) => {
+      try {
+        const response = await fetch(url, { credentials: 'same-origin' });
+        if (cacheable(response)) await cache.put(new URL(url, location.origin).pathname, response);
+      } catch {
+        // Offline: it gets cached on a later visit.
+      }
+    }),
+  );
+}
+
+// Pages come from the network when it answers, else from the cache.
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  const { pathname } = new URL(request.url);
+  try {
+    const response = await fetch(request);
+    if (cacheable(response)) await cache.put(pathname, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(pathname)) ?? (request.mode === 'navigate' ? await cache.match('/') : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Build output under /_next/static/ has content hashes in its names, so it never changes.
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (cacheable(response)) await (await caches.open(CACHE)).put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheUrls(SHELL).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const key of await caches.keys()) {
+        if (key !== CACHE) await caches.delete(key);
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// The page sends the files it loaded before this worker was controlling it.
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'cache-urls' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheUrls(event.data.urls));
+  }
+});
+
+// The API is left alone: notes have their own offline queue in the page.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate' || SHELL.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// --- Pending recordings ---
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    // No version: the page owns the schema and upgrades it.
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => {
+      // Let the page upgrade the database rather than block it.
+      request.result.onversionchange = () => request.result.close();
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function inStore(db, name, mode, fn) {
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Our own session check answers 401 with this code. A bare 401 (from a proxy,
+// say) doesn't mean the user signed out, and mustn't hold up the whole queue.
+function isSignedOut(response, data) {
+  return response.status === 401 && data.code === 'unauthorized';
+}
+
+function failureKind(status, code) {
+  if (code === 'quota_exceeded') return 'quota';
+  if (code === 'rate_limited') return 'rate_limit';
+  if (code === 'timeout') return 'timeout';
+  return status >= 500 ? 'provider_down' : 'bad_audio';
+}
+
+/**
+ * Transcribes one recording and saves it as a note. The note takes the
+ * recording's id, so a retry after a lost response can't create it twice.
+ * Resolves to 'done', 'failed' (won't be retried), 'retry', 'offline' or 'signed-out'.
+ */
+async function syncRecording(db, recording) {
+  const save = (changes) => inStore(db, 'pending', 'readwrite', (store) => store.put({ ...recording, ...changes }, recording.id));
+  const fail = (kind, message) =>
+    save({
+      attempts: recording.attempts + 1,
+      nextAttemptAt: Date.now() + 60_000,
+      lastError: { kind, message },
+      failed: kind === 'bad_audio',
+    });
+
+  const blob = await inStore(db, 'audio', 'readonly', (store) => store.get(recording.attachment.id));
+  if (!blob) {
+    await inStore(db, 'pending', 'readwrite', (store) => store.delete(recording.id));
+    return 'done';
+  }
+
+  const form = new FormData();
+  form.append('file', blob, `audio.${EXTENSIONS[blob.type.split(';')[0]] ?? 'webm'}`);
+  form.append('durationMs', String(recording.attachment.durationMs));
+  form.append('language', recording.language);
+  form.append('translate', String(recording.translate));
+
+  let response;
+  try {
+    response = await fetch('/api/transcribe', { method: 'POST', body: form });
+  } catch {
+    return 'offline';
+  }
+  const data = await response.json().catch(() => ({}));
+  if (isSignedOut(response, data)) return 'signed-out';
+  if (!response.ok) {
+    const kind = failureKind(response.status, data.code);
+    await fail(kind, kind === 'bad_audio' ? data.error || 'Audio couldn\'t be transcribed' : MESSAGES[kind]);
+    return kind === 'bad_audio' ? 'failed' : 'retry';
+  }
+
+  const text = (data.text ?? '').trim();
+  const translation = (data.translation ?? '').trim();
+  if (!text) {
+    await fail('bad_audio', 'Couldn\'t hear clearly');
+    return 'failed';
+  }
+
+  const saved = await fetch('/api/notes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      id: recording.id,
+      content: translation || text,
+      createdAt: recording.createdAt,
+      language: data.language,
+      originalText: translation ? text : undefined,
+      attachment: recording.attachment,
+      source: 'voice',
+    }),
+  }).catch(() => null);
+  if (!saved) return 'offline';
+  if (!saved.ok) return isSignedOut(saved, await saved.json().catch(() => ({}))) ? 'signed-out' : 'retry';
+
+  await inStore(db, 'pending', 'readwrite', (store) => store.delete(recording.id));
+  return 'done';
+}
+
+async function syncPending() {
+  const db = await openDb();
+  let changed = false;
+  let retryLater = false;
+  try {
+    if (!db.objectStoreNames.contains('pending')) return;
+    const recordings = await inStore(db, 'pending', 'readonly', (store) => store.getAll());
+    recordings.sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const recording of recordings) {
+      if (recording.failed) continue;
+      const outcome = await syncRecording(db, recording);
+      if (outcome !== 'offline' && outcome !== 'signed-out') changed = true;
+      if (outcome === 'retry') retryLater = true;
+      if (outcome === 'offline') {
+        retryLater = true;
+        break;
+      }
+      // Nothing can be uploaded until the user signs in again in the page.
+      if (outcome === 'signed-out') break;
+    }
+  } finally {
+    db.close();
+  }
+
+  if (changed) {
+    for (const client of await self.clients.matchAll()) client.postMessage({ type: PENDING_SYNCED_MESSAGE });
+  }
+  // A rejected sync is scheduled again by the browser, with its own backoff.
+  if (retryLater) throw new Error('Some recordings are still pending');
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== PENDING_SYNC_TAG) return;
+  event.waitUntil(self.navigator.locks ? self.navigator.locks.request(LOCK_NAME, syncPending) : syncPending());
+});
+
+// --- Reminders ---
+
+// Reminders are shown by the page (hooks/use-reminders.ts) through this worker;
+// a click focuses an open window, or opens one.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      if (windows.length > 0) return windows[0].focus();
+      return self.clients.openWindow('/');
+    })(),
+  );
+});
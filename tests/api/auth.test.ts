@@ -0,0 +1,88 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as login } from "@/app/api/auth/login/route";
+import { POST as requestLink } from "@/app/api/auth/magic-link/route";
+import { POST as verify } from "@/app/api/auth/magic-link/verify/route";
+import { POST as signup } from "@/app/api/auth/signup/route";
+import { sendMail } from "@/lib/auth/mailer";
+import { hashPassword } from "@/lib/auth/passwords";
+
+vi.mock("@/lib/auth/mailer", () => ({ sendMail: vi.fn() }));
+
+function json(body: unknown, headers?: HeadersInit): Request {
+  return new Request("http://localhost/api/auth", { method: "POST", body: JSON.stringify(body), headers });
+}
+
+// Uses the link in the last email sent to `to`.
+async function followLink(to: string): Promise<Response> {
+  const mail = vi.mocked(sendMail).mock.calls.findLast(([sent]) => sent.to === to)![0];
+  const token = new URL(mail.text.match(/https?:\/\/\S+/)![0]).searchParams.get("token");
+  return verify(json({ token }));
+}
+
+describe("/api/auth password routes", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "auth-test-"));
+    vi.stubEnv("NOTES_DATA_DIR", dataDir);
+    vi.mocked(sendMail).mockClear();
+    return () => rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("creates the account only once the emailed link is used", async () => {
+    expect((await signup(json({ email: "new@example.com", password: "correct horse" }))).status).toBe(202);
+    expect((await login(json({ email: "new@example.com", password: "correct horse" }))).status).toBe(401);
+
+    expect((await followLink("new@example.com")).status).toBe(200);
+    expect((await login(json({ email: "new@example.com", password: "correct horse" }))).status).toBe(200);
+    expect((await signup(json({ email: "new@example.com", password: "another one" }))).status).toBe(409);
+  });
+
+  it("won't let a password set by someone else into an address's account", async () => {
+    // Someone signs up with an address they can't read mail for.
+    await signup(json({ email: "victim@example.com", password: "attacker password" }));
+    // The owner later signs in with a link instead of confirming that sign-up.
+    await requestLink(json({ email: "victim@example.com" }));
+    expect((await followLink("victim@example.com")).status).toBe(200);
+
+    expect((await login(json({ email: "victim@example.com", password: "attacker password" }))).status).toBe(401);
+  });
+
+  it("drops the unconfirmed password of an older account when a link is used", async () => {
+    const user = { id: "old", email: "old@example.com", passwordHash: await hashPassword("set by anyone"), createdAt: 1 };
+    await writeFile(path.join(dataDir, "users.json"), JSON.stringify({ users: [user], loginTokens: [] }));
+
+    expect((await login(json({ email: "old@example.com", password: "set by anyone" }))).status).toBe(403);
+
+    await requestLink(json({ email: "old@example.com" }));
+    const signedIn = await followLink("old@example.com");
+    expect((await signedIn.json()).user.id).toBe("old");
+    expect((await login(json({ email: "old@example.com", password: "set by anyone" }))).status).toBe(401);
+  });
+
+  it("limits password guesses for one address", async () => {
+    await signup(json({ email: "guessed@example.com", password: "correct horse" }));
+    await followLink("guessed@example.com");
+
+    for (let i = 0; i < 10; i++) {
+      expect((await login(json({ email: "guessed@example.com", password: `guess ${i}` }))).status).toBe(401);
+    }
+    const refused = await login(json({ email: "guessed@example.com", password: "correct horse" }));
+
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get("Retry-After")).toMatch(/^\d+$/);
+  });
+
+  it("limits sign-ups from one client behind a trusted proxy", async () => {
+    vi.stubEnv("TRUST_PROXY", "true");
+    const from = { "x-forwarded-for": "203.0.113.7" };
+
+    for (let i = 0; i < 10; i++) {
+      expect((await signup(json({ email: `bulk${i}@example.com`, password: "long enough" }, from))).status).toBe(202);
+    }
+    expect((await signup(json({ email: "bulk10@example.com", password: "long enough" }, from))).status).toBe(429);
+  });
+});
@@ -0,0 +1,75 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/auth/magic-link/route";
+import { POST as verify } from "@/app/api/auth/magic-link/verify/route";
+import { sendMail } from "@/lib/auth/mailer";
+import { SESSION_COOKIE } from "@/lib/auth/session";
+
+vi.mock("@/lib/auth/mailer", () => ({ sendMail: vi.fn() }));
+
+function json(body: unknown, url = "http://localhost/api/auth/magic-link"): Request {
+  return new Request(url, { method: "POST", body: JSON.stringify(body) });
+}
+
+// The link in the last email sent.
+function sentLink(): URL {
+  const text = vi.mocked(sendMail).mock.lastCall![0].text;
+  return new URL(text.match(/https?:\/\/\S+/)![0]);
+}
+
+describe("/api/auth/magic-link", () => {
+  beforeEach(async () => {
+    const dataDir = await mkdtemp(path.join(os.tmpdir(), "auth-test-"));
+    vi.stubEnv("NOTES_DATA_DIR", dataDir);
+    vi.stubEnv("APP_URL", "https://notes.example.com");
+    vi.mocked(sendMail).mockClear();
+    return () => rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("emails a link to the sign-in page of APP_URL", async () => {
+    // As if the request came with a forged Host header.
+    const request = json({ email: "reader@example.com" }, "http://attacker.example/api/auth/magic-link");
+
+    expect((await POST(request)).status).toBe(202);
+    expect(sentLink().origin).toBe("https://notes.example.com");
+    expect(sentLink().pathname).toBe("/login");
+  });
+
+  it("won't build links from the request in production", async () => {
+    vi.stubEnv("APP_URL", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect((await POST(json({ email: "reader@example.com" }))).status).toBe(500);
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it("limits how many links one address can ask for", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await POST(json({ email: "limited@example.com" }))).status).toBe(202);
+    }
+    const refused = await POST(json({ email: "limited@example.com" }));
+
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get("Retry-After")).toMatch(/^\d+$/);
+    expect(sendMail).toHaveBeenCalledTimes(5);
+  });
+
+  it("only spends the token when sign-in is confirmed", async () => {
+    await POST(json({ email: "scanned@example.com" }));
+    const token = sentLink().searchParams.get("token")!;
+
+    // A mail scanner following an old-style link is sent to the sign-in page.
+    const opened = await GET(new Request(`http://localhost/api/auth/magic-link?token=${token}`));
+    expect(opened.headers.get("location")).toBe(`http://localhost/login?token=${token}`);
+
+    const signedIn = await verify(json({ token }, "http://localhost/api/auth/magic-link/verify"));
+    expect(signedIn.status).toBe(200);
+    expect((await signedIn.json()).user).toMatchObject({ email: "scanned@example.com" });
+    expect(signedIn.headers.get("set-cookie")).toContain(`${SESSION_COOKIE}=`);
+
+    expect((await verify(json({ token }, "http://localhost/api/auth/magic-link/verify"))).status).toBe(401);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, PATCH } from "@/app/api/notebooks/[id]/route";
+import { GET as list, POST as create } from "@/app/api/notebooks/route";
+import { PATCH as patchNote } from "@/app/api/notes/[id]/route";
+import { GET as listNotes, POST as createNote } from "@/app/api/notes/route";
+import { getSession } from "@/lib/auth/request";
+import type { Note, Notebook } from "@/lib/notes/types";
+
+vi.mock("@/lib/auth/request", () => ({ getSession: vi.fn() }));
+
+// Notes are embedded after the response; that isn't needed here.
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: () => {},
+}));
+
+const session = { sub: "user-1", email: "user@example.com", exp: Infinity };
+
+function json(method: string, body?: unknown, url = "http://localhost/api/notebooks"): Request {
+  return new Request(url, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+async function createNotebook(name: string): Promise<Notebook> {
+  const response = await create(json("POST", { name }));
+  return (await response.json()).notebook;
+}
+
+describe("/api/notebooks", () => {
+  beforeEach(async () => {
+    const dataDir = await mkdtemp(path.join(os.tmpdir(), "notebooks-test-"));
+    vi.stubEnv("NOTES_DATA_DIR", dataDir);
+    vi.mocked(getSession).mockResolvedValue(session);
+    return () => rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("requires a session", async () => {
+    vi.mocked(getSession).mockResolvedValue(undefined);
+
+    expect((await list()).status).toBe(401);
+    expect((await create(json("POST", { name: "Work" }))).status).toBe(401);
+  });
+
+  it("creates notebooks and lists them in the order they were made", async () => {
+    const response = await create(json("POST", { name: "  Work  " }));
+    expect(response.status).toBe(201);
+    expect((await response.json()).notebook).toMatchObject({ name: "Work" });
+    await createNotebook("Home");
+
+    const { notebooks } = await (await list()).json();
+
+    expect(notebooks.map((notebook: Notebook) => notebook.name)).toEqual(["Work", "Home"]);
+  });
+
+  it("refuses a blank or taken name", async () => {
+    await createNotebook("Work");
+
+    const blank = await create(json("POST", { name: " " }));
+    expect(blank.status).toBe(400);
+    expect(await blank.json()).toEqual({ error: "Notebook name is required" });
+
+    const taken = await create(json("POST", { name: "work" }));
+    expect(taken.status).toBe(409);
+  });
+
+  it("renames a notebook, unless another has the name", async () => {
+    const work = await createNotebook("Work");
+    await createNotebook("Home");
+
+    const renamed = await PATCH(json("PATCH", { name: "Office" }), params(work.id));
+    expect(await renamed.json()).toEqual({ notebook: { ...work, name: "Office" } });
+
+    expect((await PATCH(json("PATCH", { name: "Home" }), params(work.id))).status).toBe(409);
+    expect((await PATCH(json("PATCH", { name: "Home" }), params("missing"))).status).toBe(404);
+  });
+
+  it("keeps the notes of a deleted notebook, unfiled", async () => {
+    const work = await createNotebook("Work");
+    const response = await createNote(json("POST", { content: "Send the report", notebookId: work.id }, "http://localhost/api/notes"));
+    const note: Note = (await response.json()).note;
+    expect(note.notebookId).toBe(work.id);
+
+    expect((await DELETE(json("DELETE"), params(work.id))).status).toBe(204);
+    expect((await DELETE(json("DELETE"), params(work.id))).status).toBe(404);
+
+    const { notes } = await (await listNotes()).json();
+    expect(notes).toHaveLength(1);
+    expect(notes[0].notebookId).toBeUndefined();
+    expect(notes[0].revision).toBe(note.revision + 1);
+    expect((await (await list()).json()).notebooks).toEqual([]);
+  });
+
+  it("files, pins and places notes through a note update", async () => {
+    const work = await createNotebook("Work");
+    const note: Note = (await (await createNote(json("POST", { content: "Plan" }, "http://localhost/api/notes"))).json()).note;
+
+    const response = await patchNote(
+      json("PATCH", { notebookId: work.id, pinned: true, position: 1.5 }, `http://localhost/api/notes/${note.id}`),
+      params(note.id),
+    );
+    expect((await response.json()).note).toMatchObject({ notebookId: work.id, pinned: true, position: 1.5 });
+
+    const unpinned = await patchNote(json("PATCH", { pinned: false }, `http://localhost/api/notes/${note.id}`), params(note.id));
+    expect((await unpinned.json()).note.pinned).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, GET as getNote, PATCH } from "@/app/api/notes/[id]/route";
+import { GET as getHistory } from "@/app/api/notes/[id]/history/route";
+import { GET as getRelated } from "@/app/api/notes/[id]/related/route";
+import { POST as ask } from "@/app/api/notes/ask/route";
+import { GET as list, POST as create } from "@/app/api/notes/route";
+import { GET as listTrash } from "@/app/api/notes/trash/route";
+import { POST as restore } from "@/app/api/notes/trash/[id]/route";
+import { getSession } from "@/lib/auth/request";
+import type { Note } from "@/lib/notes/types";
+
+const { afterTasks } = vi.hoisted(() => ({ afterTasks: [] as Promise<unknown>[] }));
+
+vi.mock("@/lib/auth/request", () => ({ getSession: vi.fn() }));
+
+// Outside a real request there's no scope for after(); the tasks are run
+// straight away and awaited before each test's data is removed.
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: (task: () => unknown) => {
+    afterTasks.push(Promise.resolve().then(task));
+  },
+}));
+
+const session = { sub: "user-1", email: "user@example.com", exp: Infinity };
+
+function json(method: string, body?: unknown, url = "http://localhost/api/notes"): Request {
+  return new Request(url, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+async function createNote(content: string): Promise<Note> {
+  const response = await create(json("POST", { content }));
+  return (await response.json()).note;
+}
+
+describe("/api/notes", () => {
+  beforeEach(async () => {
+    const dataDir = await mkdtemp(path.join(os.tmpdir(), "notes-test-"));
+    vi.stubEnv("NOTES_DATA_DIR", dataDir);
+    vi.stubEnv("EMBEDDING_PROVIDER", "mock");
+    vi.mocked(getSession).mockResolvedValue(session);
+    return async () => {
+      await Promise.all(afterTasks.splice(0));
+      await rm(dataDir, { recursive: true, force: true });
+    };
+  });
+
+  it("requires a session", async () => {
+    vi.mocked(getSession).mockResolvedValue(undefined);
+
+    expect((await list()).status).toBe(401);
+    expect((await create(json("POST", { content: "Hi" }))).status).toBe(401);
+  });
+
+  it("creates notes and lists them newest first", async () => {
+    const response = await create(json("POST", { content: "Buy milk #errands", createdAt: 1 }));
+    expect(response.status).toBe(201);
+    expect((await response.json()).note).toMatchObject({ content: "Buy milk #errands", tags: ["errands"], revision: 1 });
+    await create(json("POST", { content: "Call the bank", createdAt: 2 }));
+
+    const { notes } = await (await list()).json();
+
+    expect(notes.map((note: Note) => note.content)).toEqual(["Call the bank", "Buy milk #errands"]);
+  });
+
+  it("rejects a note without content", async () => {
+    const response = await create(json("POST", { content: "  " }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Note content is required" });
+  });
+
+  it("doesn't create a note twice when the same id is sent again", async () => {
+    await create(json("POST", { id: "fixed", content: "First" }));
+    const again = await create(json("POST", { id: "fixed", content: "Second" }));
+
+    expect((await again.json()).note.content).toBe("First");
+    expect((await (await list()).json()).notes).toHaveLength(1);
+  });
+
+  it("keeps each user's notes apart", async () => {
+    await createNote("Mine");
+    vi.mocked(getSession).mockResolvedValue({ ...session, sub: "user-2" });
+
+    expect((await (await list()).json()).notes).toEqual([]);
+  });
+
+  it("updates a note and keeps its earlier version", async () => {
+    const note = await createNote("Draft");
+
+    const response = await PATCH(json("PATCH", { content: "Final", baseRevision: note.revision, source: "voice" }), params(note.id));
+    expect((await response.json()).note).toMatchObject({ content: "Final", revision: 2 });
+
+    const { revisions } = await (await getHistory(json("GET"), params(note.id))).json();
+    expect(revisions.map((revision: { content: string }) => revision.content)).toEqual(["Final", "Draft"]);
+    expect(revisions[0].source).toBe("voice");
+  });
+
+  it("sets and clears a due date without adding a version", async () => {
+    const note = await createNote("Call the vendor tomorrow at 5");
+
+    const set = await PATCH(json("PATCH", { dueAt: 1_800_000_000_000, remindAt: 1_800_000_000_000 }), params(note.id));
+    expect((await set.json()).note).toMatchObject({ dueAt: 1_800_000_000_000, remindAt: 1_800_000_000_000 });
+    const cleared = await PATCH(json("PATCH", { dueAt: null, remindAt: null }), params(note.id));
+    expect((await cleared.json()).note).not.toHaveProperty("dueAt");
+
+    const { revisions } = await (await getHistory(json("GET"), params(note.id))).json();
+    expect(revisions).toHaveLength(1);
+  });
+
+  it("rejects a due date that isn't a timestamp", async () => {
+    const note = await createNote("Dentist");
+
+    const response = await PATCH(json("PATCH", { dueAt: "tomorrow" }), params(note.id));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "dueAt must be a number or null" });
+  });
+
+  it("refuses an update based on an old revision and returns the current note", async () => {
+    const note = await createNote("Draft");
+    await PATCH(json("PATCH", { content: "From another device" }), params(note.id));
+
+    const response = await PATCH(json("PATCH", { content: "Stale edit", baseRevision: note.revision }), params(note.id));
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).note).toMatchObject({ content: "From another device", revision: 2 });
+  });
+
+  it("moves deleted notes to the trash and restores them", async () => {
+    const note = await createNote("Old idea");
+
+    expect((await DELETE(json("DELETE"), params(note.id))).status).toBe(204);
+    expect((await getNote(json("GET"), params(note.id))).status).toBe(404);
+    const trash = await (await listTrash()).json();
+    expect(trash.notes.map((trashed: Note) => trashed.id)).toEqual([note.id]);
+
+    const restored = await restore(json("POST"), params(note.id));
+    expect(restored.status).toBe(200);
+    expect((await (await list()).json()).notes.map((listed: Note) => listed.id)).toEqual([note.id]);
+  });
+
+  it("answers 404 for notes that don't exist", async () => {
+    expect((await PATCH(json("PATCH", { content: "x" }), params("missing"))).status).toBe(404);
+    expect((await DELETE(json("DELETE"), params("missing"))).status).toBe(404);
+  });
+
+  it("finds notes by meaning and lists related ones", async () => {
+    const onboarding = await createNote("Onboarding checklist for new hires: laptop and accounts");
+    await createNote("Groceries: eggs, bread");
+    const flow = await createNote("Ideas for the onboarding flow");
+
+    const answer = await ask(json("POST", { query: "onboarding" }));
+    const { matches } = await answer.json();
+    expect(matches.map((match: { id: string }) => match.id).sort()).toEqual([onboarding.id, flow.id].sort());
+
+    const related = await (await getRelated(json("GET"), params(flow.id))).json();
+    expect(related.matches.map((match: { id: string }) => match.id)).toEqual([onboarding.id]);
+  });
+
+  it("counts Ask and related notes against one daily allowance, and logs them", async () => {
+    vi.stubEnv("DAILY_AI_REQUESTS", "2");
+    const note = await createNote("Onboarding checklist");
+
+    expect((await ask(json("POST", { query: "onboarding" }))).status).toBe(200);
+    expect((await getRelated(json("GET"), params(note.id))).status).toBe(200);
+    const refused = await ask(json("POST", { query: "onboarding" }));
+
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get("Retry-After")).toMatch(/^\d+$/);
+    const log = await readFile(path.join(process.env.NOTES_DATA_DIR!, "ai-usage-log.jsonl"), "utf8");
+    expect(log.trim().split("\n").map((line) => JSON.parse(line))).toMatchObject([
+      { userId: "user-1", action: "ask", provider: "mock", characters: 10 },
+      { userId: "user-1", action: "related", provider: "mock" },
+    ]);
+  });
+
+  it("answers a storage failure with a JSON 500", async () => {
+    const notesDir = path.join(process.env.NOTES_DATA_DIR!, "notes");
+    await mkdir(notesDir, { recursive: true });
+    await writeFile(path.join(notesDir, "user-1.json"), "{ not json");
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const response = await getNote(json("GET"), params("any"));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Internal server error" });
+  });
+
+  it("answers 503 to questions when semantic search is off", async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "none");
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const response = await ask(json("POST", { query: "anything" }));
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,200 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/transcribe/route";
+import { getSession } from "@/lib/auth/request";
+import { fakeAudio } from "../helpers/fake-media";
+import { startMockOpenAI, type MockOpenAI } from "../helpers/mock-openai";
+
+vi.mock("@/lib/auth/request", () => ({ getSession: vi.fn() }));
+
+const session = { sub: "user-1", email: "user@example.com", exp: Infinity };
+
+function upload(fields: Record<string, string | Blob>, headers?: HeadersInit): Request {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    if (typeof value === "string") form.append(key, value);
+    else form.append(key, value, "recording.webm");
+  }
+  return new Request("http://localhost/api/transcribe", { method: "POST", body: form, headers });
+}
+
+describe("POST /api/transcribe", () => {
+  let openai: MockOpenAI;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    openai = await startMockOpenAI();
+  });
+
+  afterAll(async () => {
+    await openai.close();
+  });
+
+  beforeEach(async () => {
+    openai.reset();
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "notes-test-"));
+    vi.stubEnv("NOTES_DATA_DIR", dataDir);
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    vi.stubEnv("OPENAI_BASE_URL", openai.url);
+    vi.stubEnv("TRANSCRIPTION_PROVIDERS", "openai");
+    vi.stubEnv("TRANSCRIBE_RATE_LIMIT", "0");
+    vi.stubEnv("TRANSCRIBE_RATE_LIMIT_CLIENT", "0");
+    vi.mocked(getSession).mockResolvedValue(session);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    return () => rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("requires a session", async () => {
+    vi.mocked(getSession).mockResolvedValue(undefined);
+
+    const response = await POST(upload({ file: fakeAudio() }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: "unauthorized" });
+    expect(openai.requests).toHaveLength(0);
+  });
+
+  it("transcribes an upload through OpenAI", async () => {
+    const response = await POST(upload({ file: fakeAudio(), durationMs: "2000", language: "auto" }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: "Hello from the mock server", language: "en", provider: "openai" });
+    expect(openai.requests).toHaveLength(1);
+    expect(openai.requests[0]).toMatchObject({
+      path: "/v1/audio/transcriptions",
+      fields: { model: "whisper-1", response_format: "verbose_json" },
+      files: { file: { name: "audio.webm" } },
+    });
+  });
+
+  it("names the upload after its contents, not the name the client gave it", async () => {
+    const form = new FormData();
+    form.append("file", new Blob([await fakeAudio().arrayBuffer()], { type: "audio/mpeg" }), "voice.mp3");
+
+    await POST(new Request("http://localhost/api/transcribe", { method: "POST", body: form }));
+
+    expect(openai.requests[0].files.file.name).toBe("audio.webm");
+  });
+
+  it("refuses files that aren't audio without calling the provider", async () => {
+    const response = await POST(upload({ file: new Blob(["not audio at all"], { type: "audio/webm" }) }));
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toMatchObject({ code: "unsupported_format" });
+    expect(openai.requests).toHaveLength(0);
+  });
+
+  it("passes on audio the provider can't decode as bad_audio", async () => {
+    openai.reply("/v1/audio/transcriptions", openai.error(400, "Audio file is too short"));
+
+    const response = await POST(upload({ file: fakeAudio() }));
+
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.code).toBe("bad_audio");
+    expect(body.error).toContain("Audio file is too short");
+  });
+
+  it("doesn't pass on the provider's own status", async () => {
+    openai.reply("/v1/audio/transcriptions", openai.error(401, "Incorrect API key provided"));
+    const response = await POST(upload({ file: fakeAudio() }));
+
+    // A 401 would read as the user's session having ended.
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: "provider_error" });
+  });
+
+  it("translates into English when asked", async () => {
+    const response = await POST(upload({ file: fakeAudio(), language: "hi", translate: "true" }));
+
+    expect(await response.json()).toMatchObject({
+      text: "Hello from the mock server",
+      language: "hi",
+      translation: "Translated by the mock server",
+    });
+    expect(openai.requests.map((request) => request.path)).toEqual(["/v1/audio/transcriptions", "/v1/audio/translations"]);
+    expect(openai.requests[0].fields.language).toBe("hi");
+  });
+
+  it("stitches the segments of a recording together", async () => {
+    openai.reply(
+      "/v1/audio/transcriptions",
+      { body: { text: "First part.", language: "english" } },
+      { body: { text: "Second part.", language: "english" } },
+    );
+
+    const first = await POST(upload({ file: fakeAudio(), sessionId: "take-1", sequence: "0", final: "false" }));
+    expect(await first.json()).toMatchObject({ text: "First part.", segment: "First part.", final: false });
+
+    const last = await POST(upload({ file: fakeAudio(), sessionId: "take-1", sequence: "1", final: "true" }));
+    expect(await last.json()).toMatchObject({ text: "First part. Second part.", segment: "Second part.", final: true });
+  });
+
+  it("finishes a session with a final request that carries no audio", async () => {
+    await POST(upload({ file: fakeAudio(), sessionId: "take-2", sequence: "0", final: "false" }));
+
+    const response = await POST(upload({ sessionId: "take-2", sequence: "1", final: "true" }));
+
+    expect(await response.json()).toMatchObject({ text: "Hello from the mock server", final: true });
+    expect(openai.requests).toHaveLength(1);
+  });
+
+  it("sizes an upload without a declared length conservatively", async () => {
+    // 1.5 MB is over ten minutes of audio at the lowest bitrate assumed.
+    const response = await POST(upload({ file: fakeAudio("audio/webm", 1_500_000) }));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: "audio_too_long" });
+    expect(openai.requests).toHaveLength(0);
+  });
+
+  it("stops at the daily quota", async () => {
+    vi.stubEnv("DAILY_TRANSCRIPTION_MINUTES", "1");
+
+    const response = await POST(upload({ file: fakeAudio(), durationMs: "90000" }));
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: "quota_exceeded" });
+    expect(response.headers.get("Retry-After")).toMatch(/^\d+$/);
+    expect(openai.requests).toHaveLength(0);
+  });
+
+  it("holds the quota for uploads still being transcribed", async () => {
+    vi.stubEnv("DAILY_TRANSCRIPTION_MINUTES", "1");
+    vi.mocked(getSession).mockResolvedValue({ ...session, sub: "parallel-user" });
+
+    const responses = await Promise.all([
+      POST(upload({ file: fakeAudio(), durationMs: "40000" })),
+      POST(upload({ file: fakeAudio(), durationMs: "40000" })),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 429]);
+    expect(openai.requests).toHaveLength(1);
+  });
+
+  it("rate-limits each user", async () => {
+    vi.stubEnv("TRANSCRIBE_RATE_LIMIT", "1");
+    vi.mocked(getSession).mockResolvedValue({ ...session, sub: "rate-limited-user" });
+
+    expect((await POST(upload({ file: fakeAudio() }))).status).toBe(200);
+    const second = await POST(upload({ file: fakeAudio() }));
+
+    expect(second.status).toBe(429);
+    expect(await second.json()).toMatchObject({ code: "rate_limited" });
+  });
+
+  it("only limits by client IP behind a trusted proxy", async () => {
+    vi.stubEnv("TRANSCRIBE_RATE_LIMIT_CLIENT", "1");
+    // The first address is whatever the client sent; the proxy adds the last.
+    const from = (sent: string) => upload({ file: fakeAudio() }, { "X-Forwarded-For": `${sent}, 203.0.113.7` });
+
+    expect((await POST(from("198.51.100.1"))).status).toBe(200);
+    expect((await POST(from("198.51.100.2"))).status).toBe(200);
+
+    vi.stubEnv("TRUST_PROXY", "true");
+    expect((await POST(from("198.51.100.3"))).status).toBe(200);
+    expect((await POST(from("198.51.100.4"))).status).toBe(429);
+  });
+});
@@ -0,0 +1,243 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import NoteApp from "@/app/page";
+import type { Note } from "@/lib/notes/types";
+import { FakeMediaRecorder, installFakeMicrophone } from "../helpers/fake-media";
+
+// IndexedDB isn't in jsdom; recordings and the pending queue are kept in memory.
+const stores = vi.hoisted(() => ({
+  blobs: new Map<string, Blob>(),
+  recordings: new Map<string, { id: string; createdAt: number }>(),
+}));
+
+vi.mock("@/lib/audio-store", () => {
+  const { blobs } = stores;
+  return {
+    saveAudio: async (id: string, blob: Blob) => void blobs.set(id, blob),
+    loadAudio: async (id: string) => blobs.get(id),
+    deleteAudio: async (id: string) => void blobs.delete(id),
+  };
+});
+
+vi.mock("@/lib/pending-recordings", () => {
+  const { recordings } = stores;
+  return {
+    savePending: async (recording: { id: string; createdAt: number }) => void recordings.set(recording.id, recording),
+    listPending: async () => [...recordings.values()].sort((a, b) => a.createdAt - b.createdAt),
+    deletePending: async (id: string) => void recordings.delete(id),
+  };
+});
+
+const user = { id: "user-1", email: "user@example.com", createdAt: 0 };
+
+type TranscribeReply = (form: FormData) => Response | Promise<Response>;
+
+/**
+ * Answers the page's API calls: the session, notes kept in `saved`, and
+ * /api/transcribe through `transcribe`. Every upload's form is kept in `uploads`.
+ */
+function serveApi(transcribe: TranscribeReply) {
+  const saved: Note[] = [];
+  const uploads: FormData[] = [];
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = String(input);
+      const method = init.method ?? "GET";
+      if (url === "/api/auth/session") return Response.json({ user });
+      if (url === "/api/notes" && method === "GET") return Response.json({ notes: saved });
+      if (url === "/api/notebooks") return Response.json({ notebooks: [] });
+      if (url === "/api/notes" && method === "POST") {
+        const body = JSON.parse(String(init.body));
+        const note: Note = { ...body, updatedAt: Date.now(), revision: 1 };
+        saved.unshift(note);
+        return Response.json({ note }, { status: 201 });
+      }
+      const patched = url.match(/^\/api\/notes\/([^/]+)$/);
+      if (patched && method === "PATCH") {
+        const index = saved.findIndex((note) => note.id === decodeURIComponent(patched[1]));
+        const { baseRevision: _baseRevision, writerId: _writerId, source: _source, ...patch } = JSON.parse(String(init.body));
+        saved[index] = { ...saved[index], ...patch, revision: saved[index].revision + 1 };
+        return Response.json({ note: saved[index] });
+      }
+      if (url === "/api/transcribe") {
+        uploads.push(init.body as FormData);
+        return transcribe(init.body as FormData);
+      }
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }),
+  );
+  return { saved, uploads };
+}
+
+const transcript = (text: string): TranscribeReply => () => Response.json({ text, language: "en", final: true });
+
+function micButton(): HTMLElement {
+  return screen.getByText(/hold to speak|release to finish/i).parentElement!.querySelector("button")!;
+}
+
+// Holds the mic button for `ms`, long enough to count as a recording.
+async function holdToSpeak(ms = 350) {
+  fireEvent.pointerDown(micButton());
+  await screen.findByText(/release to finish/i);
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  fireEvent.pointerUp(micButton());
+}
+
+describe("NoteApp voice notes", () => {
+  beforeEach(() => {
+    localStorage.setItem("brutalist-notes-session", JSON.stringify(user));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    cleanup();
+    stores.blobs.clear();
+    stores.recordings.clear();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it("turns a held recording into a note", async () => {
+    const mic = installFakeMicrophone();
+    const api = serveApi(transcript("Remember to water the plants"));
+    render(<NoteApp />);
+
+    await holdToSpeak();
+
+    expect(await screen.findByText("Remember to water the plants")).toBeTruthy();
+    expect(mic.getUserMedia).toHaveBeenCalledWith({ audio: true });
+    expect(mic.track.stop).toHaveBeenCalled();
+    expect(FakeMediaRecorder.instances.every((recorder) => recorder.state === "inactive")).toBe(true);
+
+    const upload = api.uploads[0];
+    expect(upload.get("final")).toBe("true");
+    expect(upload.get("sequence")).toBe("0");
+    expect(upload.get("file")).toBeInstanceOf(Blob);
+
+    await waitFor(() => expect(api.saved).toHaveLength(1));
+    expect(api.saved[0]).toMatchObject({ content: "Remember to water the plants", source: "voice" });
+    expect(api.saved[0].attachment).toMatchObject({ mimeType: "audio/webm" });
+    expect(screen.getByText(/hold to speak/i)).toBeTruthy();
+  });
+
+  it("shows the mic as busy while the recording is transcribed", async () => {
+    installFakeMicrophone();
+    let answer: (response: Response) => void = () => undefined;
+    serveApi(() => new Promise<Response>((resolve) => (answer = resolve)));
+    render(<NoteApp />);
+
+    await holdToSpeak();
+
+    await waitFor(() => expect((micButton() as HTMLButtonElement).disabled).toBe(true));
+    answer(Response.json({ text: "Done now", final: true }));
+    expect(await screen.findByText("Done now")).toBeTruthy();
+    expect((micButton() as HTMLButtonElement).disabled).toBe(false);
+  });
+
+  it("says so when the microphone is refused", async () => {
+    installFakeMicrophone({ denied: true });
+    serveApi(transcript("unused"));
+    render(<NoteApp />);
+
+    fireEvent.pointerDown(micButton());
+
+    expect(await screen.findByText("Permission denied.")).toBeTruthy();
+    expect(screen.getByText(/hold to speak/i)).toBeTruthy();
+    expect(FakeMediaRecorder.instances).toHaveLength(0);
+  });
+
+  it("asks for a longer press when the button is only tapped", async () => {
+    installFakeMicrophone();
+    serveApi(transcript(""));
+    render(<NoteApp />);
+
+    await holdToSpeak(0);
+
+    expect(await screen.findByText("Hold longer to record")).toBeTruthy();
+  });
+
+  it("keeps a recording the server rejects in the queue, without retrying it", async () => {
+    installFakeMicrophone();
+    const api = serveApi(() =>
+      Response.json({ error: "Audio file is empty or corrupt", code: "bad_audio" }, { status: 400 }),
+    );
+    render(<NoteApp />);
+
+    await holdToSpeak();
+
+    expect(await screen.findByText(/won't retry/i)).toBeTruthy();
+    expect(stores.recordings.size).toBe(1);
+    expect(api.uploads).toHaveLength(1);
+    expect(api.saved).toHaveLength(0);
+  });
+
+  it("offers a date said in a note as a reminder", async () => {
+    installFakeMicrophone();
+    const api = serveApi(transcript("Call the vendor tomorrow at 5"));
+    render(<NoteApp />);
+
+    await holdToSpeak();
+
+    expect(await screen.findByText(/Remind me Tomorrow/i)).toBeTruthy();
+    fireEvent.click(screen.getByTitle("Set due date and reminder"));
+
+    expect(await screen.findByText(/Due Tomorrow/i)).toBeTruthy();
+    expect(screen.queryByText(/Remind me Tomorrow/i)).toBeNull();
+    await waitFor(() => expect(api.saved[0]?.dueAt).toBeDefined());
+    expect(new Date(api.saved[0].dueAt!).getHours()).toBe(17);
+    expect(api.saved[0].remindAt).toBe(api.saved[0].dueAt);
+  });
+
+  it("reads relative dates from when a note was written, not its last change", async () => {
+    const api = serveApi(transcript(""));
+    const day = 24 * 60 * 60 * 1000;
+    // Written two days ago, then pinned just now.
+    api.saved.push({
+      id: "passport",
+      content: "Renew the passport in 3 days",
+      createdAt: Date.now() - 2 * day,
+      updatedAt: Date.now(),
+      revision: 2,
+      pinned: true,
+    });
+    render(<NoteApp />);
+
+    expect(await screen.findByText(/Remind me Tomorrow/i)).toBeTruthy();
+  });
+
+  it("reads a date added in a later edit from that edit", async () => {
+    const api = serveApi(transcript(""));
+    const day = 24 * 60 * 60 * 1000;
+    // Written four days ago; "tomorrow" was added an hour ago.
+    api.saved.push({
+      id: "vendor",
+      content: "Call the vendor tomorrow",
+      createdAt: Date.now() - 4 * day,
+      updatedAt: Date.now() - 60 * 60 * 1000,
+      contentUpdatedAt: Date.now() - 60 * 60 * 1000,
+      revision: 2,
+    });
+    render(<NoteApp />);
+
+    expect(await screen.findByText(/Remind me Tomorrow/i)).toBeTruthy();
+  });
+
+  it("acts on a spoken command instead of saving it", async () => {
+    installFakeMicrophone();
+    const replies = ["Buy eggs", "Add to the last note: and milk"];
+    const api = serveApi(() => Response.json({ text: replies.shift(), final: true }));
+    render(<NoteApp />);
+
+    await holdToSpeak();
+    await screen.findByText("Buy eggs");
+    await holdToSpeak();
+
+    expect(await screen.findByText(/Added to "Buy eggs"/)).toBeTruthy();
+    await waitFor(() => expect(screen.getByText(/And milk/)).toBeTruthy());
+    await waitFor(() => expect(api.saved).toEqual([expect.objectContaining({ content: "Buy eggs\nAnd milk" })]));
+  });
+});
@@ -0,0 +1,94 @@
+import { vi } from "vitest";
+
+// EBML magic, so the server sniffs these as WebM; padded past the size the
+// page treats as an empty segment.
+const WEBM_HEADER = [0x1a, 0x45, 0xdf, 0xa3];
+
+export function fakeAudio(type = "audio/webm", size = 2048): Blob {
+  const bytes = new Uint8Array(size);
+  bytes.set(WEBM_HEADER);
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Stand-in for MediaRecorder. Like the real one, stop() hands over the last
+ * data and fires onstop in a later task, not synchronously.
+ */
+export class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+
+  static isTypeSupported(type: string): boolean {
+    return type === "audio/webm";
+  }
+
+  state: RecordingState = "inactive";
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(
+    readonly stream: MediaStream,
+    readonly options: MediaRecorderOptions = {},
+  ) {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = "recording";
+  }
+
+  stop() {
+    if (this.state === "inactive") throw new DOMException("The MediaRecorder's state is 'inactive'.", "InvalidStateError");
+    this.state = "inactive";
+    setTimeout(() => {
+      this.ondataavailable?.({ data: fakeAudio(this.options.mimeType) });
+      this.onstop?.();
+    }, 0);
+  }
+}
+
+export interface FakeStream {
+  stream: MediaStream;
+  track: { stop: ReturnType<typeof vi.fn> };
+}
+
+export function fakeStream(): FakeStream {
+  const track = { stop: vi.fn() };
+  return { stream: { getTracks: () => [track] } as unknown as MediaStream, track };
+}
+
+// Web Audio as the level meter and silence trimming use it: a silent
+// microphone, and recordings it can't decode (so they're uploaded untrimmed).
+class FakeAudioContext {
+  createAnalyser() {
+    return { fftSize: 2048, getFloatTimeDomainData: (samples: Float32Array) => samples.fill(0) };
+  }
+
+  createMediaStreamSource() {
+    return { connect: () => undefined };
+  }
+
+  decodeAudioData(): Promise<AudioBuffer> {
+    return Promise.reject(new DOMException("Unable to decode audio data", "EncodingError"));
+  }
+
+  close() {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Gives the page a microphone: getUserMedia resolves to a fake stream (or
+ * rejects with `denied`), recorded through FakeMediaRecorder.
+ */
+export function installFakeMicrophone({ denied = false } = {}) {
+  FakeMediaRecorder.instances = [];
+  const { stream, track } = fakeStream();
+  const getUserMedia = vi.fn(() =>
+    denied ? Promise.reject(new DOMException("Permission denied", "NotAllowedError")) : Promise.resolve(stream),
+  );
+
+  vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  Object.defineProperty(navigator, "mediaDevices", { value: { getUserMedia }, configurable: true });
+  return { getUserMedia, track };
+}
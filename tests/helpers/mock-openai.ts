@@ -0,0 +1,78 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface MockReply {
+  status?: number;
+  body: unknown;
+}
+
+/** A request the mock received: multipart fields as text, files by name, or the JSON body. */
+export interface MockRequest {
+  path: string;
+  fields: Record<string, string>;
+  files: Record<string, { name: string; type: string; size: number }>;
+  json?: unknown;
+}
+
+const DEFAULT_REPLIES: Record<string, MockReply> = {
+  "/v1/audio/transcriptions": { body: { text: "Hello from the mock server", language: "english", duration: 2 } },
+  "/v1/audio/translations": { body: { text: "Translated by the mock server" } },
+};
+
+/**
+ * A local stand-in for the OpenAI API, for tests that go through the real
+ * SDK: point OPENAI_BASE_URL at `url`. Answers with DEFAULT_REPLIES unless
+ * `reply` queued something else for a path.
+ */
+export async function startMockOpenAI() {
+  const requests: MockRequest[] = [];
+  const queued = new Map<string, MockReply[]>();
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const contentType = req.headers["content-type"] ?? "";
+
+    const received: MockRequest = { path, fields: {}, files: {} };
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = await new Response(Buffer.concat(chunks), { headers: { "content-type": contentType } }).formData();
+      for (const [key, value] of form) {
+        if (typeof value === "string") received.fields[key] = value;
+        else received.files[key] = { name: value.name, type: value.type, size: value.size };
+      }
+    } else if (chunks.length > 0) {
+      received.json = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    }
+    requests.push(received);
+
+    const reply = queued.get(path)?.shift() ?? DEFAULT_REPLIES[path] ?? { status: 404, body: { error: { message: "Not found" } } };
+    res.writeHead(reply.status ?? 200, { "content-type": "application/json" });
+    res.end(JSON.stringify(reply.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    /** Answers the next requests to `path` with `replies`, in order. */
+    reply(path: string, ...replies: MockReply[]) {
+      queued.set(path, [...(queued.get(path) ?? []), ...replies]);
+    },
+    /** An OpenAI-style error body. */
+    error(status: number, message: string): MockReply {
+      return { status, body: { error: { message, type: "invalid_request_error" } } };
+    },
+    reset() {
+      requests.length = 0;
+      queued.clear();
+    },
+    close(): Promise<void> {
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+export type MockOpenAI = Awaited<ReturnType<typeof startMockOpenAI>>;
@@ -0,0 +1,38 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { sendMail } from "@/lib/auth/mailer";
+
+const mail = { to: "reader@example.com", subject: "Sign in", text: "https://notes.example.com/login?token=secret" };
+
+describe("sendMail without SMTP_URL", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "mail-test-"));
+    vi.stubEnv("NOTES_DATA_DIR", dataDir);
+    vi.stubEnv("SMTP_URL", "");
+    return () => rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("writes the message to the data directory and only logs it in development", async () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => undefined);
+
+    await sendMail(mail);
+    expect(await readdir(path.join(dataDir, "mail"))).toHaveLength(1);
+    expect(info).not.toHaveBeenCalled();
+
+    vi.stubEnv("NODE_ENV", "development");
+    await sendMail(mail);
+    expect(info).toHaveBeenCalledWith(expect.stringContaining("token=secret"));
+  });
+
+  it("refuses to send in production", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    const info = vi.spyOn(console, "info").mockImplementation(() => undefined);
+
+    await expect(sendMail(mail)).rejects.toThrow("SMTP_URL must be set in production");
+    expect(info).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it, vi } from "vitest";
+
+describe("verifySession", () => {
+  it("fails loudly instead of signing everyone out when AUTH_SECRET is missing in production", async () => {
+    const { signSession } = await import("@/lib/auth/session");
+    const token = await signSession({ id: "user", email: "reader@example.com" });
+
+    vi.resetModules();
+    vi.stubEnv("AUTH_SECRET", "");
+    vi.stubEnv("NODE_ENV", "production");
+    const { verifySession } = await import("@/lib/auth/session");
+
+    await expect(verifySession(token)).rejects.toThrow("AUTH_SECRET must be set in production");
+    expect(await verifySession(undefined)).toBeUndefined();
+  });
+});
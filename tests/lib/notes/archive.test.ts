@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { exportJson, exportMarkdownZip, noteToMarkdown, readImport } from "@/lib/notes/archive";
+import type { Note } from "@/lib/notes/types";
+
+const organised: Note = {
+  id: "a",
+  content: "Quarterly report #work",
+  createdAt: Date.parse("2026-03-01T09:00:00Z"),
+  updatedAt: Date.parse("2026-03-02T09:00:00Z"),
+  revision: 4,
+  tags: ["work"],
+  notebookId: "notebook-1",
+  pinned: true,
+  position: 2.5,
+  archivedAt: Date.parse("2026-03-03T09:00:00Z"),
+};
+
+describe("Markdown export", () => {
+  it("keeps a note's notebook, pin, place and archive date through a round trip", () => {
+    const { notes, invalid } = readImport("notes.zip", exportMarkdownZip([organised]));
+
+    expect(invalid).toBe(0);
+    expect(notes[0]).toMatchObject({
+      id: "a",
+      content: "Quarterly report #work",
+      notebookId: "notebook-1",
+      pinned: true,
+      position: 2.5,
+      archivedAt: organised.archivedAt,
+      revision: 0,
+    });
+  });
+
+  it("leaves out fields a note doesn't have", () => {
+    const markdown = noteToMarkdown({ id: "b", content: "Plain", createdAt: 0, updatedAt: 0, revision: 1 });
+
+    expect(markdown).not.toMatch(/notebookId|pinned|position|archivedAt/);
+  });
+});
+
+describe("JSON export", () => {
+  it("round-trips the same fields", () => {
+    const { notes } = readImport("notes.json", new TextEncoder().encode(exportJson([organised])));
+
+    expect(notes[0]).toMatchObject({ notebookId: "notebook-1", pinned: true, position: 2.5, archivedAt: organised.archivedAt });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { byDueDate, parseDueDate } from "@/lib/notes/due-date";
+import type { Note } from "@/lib/notes/types";
+
+// Wednesday 4 March 2026, 14:30 local time.
+const now = new Date(2026, 2, 4, 14, 30);
+
+function dueAt(text: string): Date | undefined {
+  const due = parseDueDate(text, now);
+  return due && new Date(due.dueAt);
+}
+
+describe("parseDueDate", () => {
+  it("reads a day and a time", () => {
+    expect(parseDueDate("Remind me to call the vendor tomorrow at 5", now)).toEqual({
+      dueAt: new Date(2026, 2, 5, 17, 0).getTime(),
+      text: "tomorrow at 5",
+    });
+    expect(dueAt("Dentist on March 20th at 10:30am")).toEqual(new Date(2026, 2, 20, 10, 30));
+    expect(dueAt("Standup friday at 9:15")).toEqual(new Date(2026, 2, 6, 9, 15));
+  });
+
+  it("takes an hour without am/pm as the likelier one", () => {
+    expect(dueAt("call at 2")).toEqual(new Date(2026, 2, 5, 14, 0));
+    expect(dueAt("gym tomorrow morning at 7")).toEqual(new Date(2026, 2, 5, 7, 0));
+    expect(dueAt("dinner this evening at 8")).toEqual(new Date(2026, 2, 4, 20, 0));
+  });
+
+  it("uses the morning, or the part of the day said, when there's no time", () => {
+    expect(dueAt("Taxes due 2026-04-15")).toEqual(new Date(2026, 3, 15, 9, 0));
+    expect(dueAt("Review next week")).toEqual(new Date(2026, 2, 11, 9, 0));
+    expect(dueAt("Drinks tomorrow evening")).toEqual(new Date(2026, 2, 5, 18, 0));
+    expect(dueAt("Pay rent on the 1st of April")).toEqual(new Date(2026, 3, 1, 9, 0));
+  });
+
+  it("reads relative times", () => {
+    expect(dueAt("check the oven in 20 minutes")).toEqual(new Date(2026, 2, 4, 14, 50));
+    expect(dueAt("in half an hour")).toEqual(new Date(2026, 2, 4, 15, 0));
+    expect(dueAt("follow up in two days")).toEqual(new Date(2026, 2, 6, 9, 0));
+    expect(dueAt("the day after tomorrow")).toEqual(new Date(2026, 2, 6, 9, 0));
+  });
+
+  it("puts a time on its own at the next time the clock shows it", () => {
+    expect(dueAt("lunch at noon")).toEqual(new Date(2026, 2, 5, 12, 0));
+    expect(dueAt("call back at 5pm")).toEqual(new Date(2026, 2, 4, 17, 0));
+  });
+
+  it("puts a date without a year that has passed in the next year", () => {
+    expect(dueAt("Anniversary March 3")).toEqual(new Date(2027, 2, 3, 9, 0));
+    expect(dueAt("Conference Dec 25, 2027")).toEqual(new Date(2027, 11, 25, 9, 0));
+  });
+
+  it("finds nothing in text without a date", () => {
+    expect(parseDueDate("Buy 2 cartons of milk", now)).toBeUndefined();
+    expect(parseDueDate("Meeting notes: 42 attendees", now)).toBeUndefined();
+    expect(parseDueDate("Due on February 30", now)).toBeUndefined();
+  });
+});
+
+describe("byDueDate", () => {
+  it("keeps notes with a due date, soonest first", () => {
+    const note = (id: string, dueAt?: number): Note => ({ id, content: id, createdAt: 0, updatedAt: 0, revision: 1, dueAt });
+
+    expect(byDueDate([note("later", 20), note("none"), note("sooner", 10)]).map((n) => n.id)).toEqual(["sooner", "later"]);
+  });
+});
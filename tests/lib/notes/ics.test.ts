@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { exportIcs } from "@/lib/notes/ics";
+import type { Note } from "@/lib/notes/types";
+
+const dueAt = Date.UTC(2026, 2, 5, 17, 0);
+
+function note(fields: Partial<Note> = {}): Note {
+  return { id: "n1", content: "Call the vendor", createdAt: 0, updatedAt: 0, revision: 1, dueAt, ...fields };
+}
+
+// Undoes line folding so fields can be checked whole.
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("exportIcs", () => {
+  it("writes an event at each due date", () => {
+    const lines = unfold(exportIcs([note()], Date.UTC(2026, 2, 1)));
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("UID:n1@brutalist-notes");
+    expect(lines).toContain("DTSTAMP:20260301T000000Z");
+    expect(lines).toContain("DTSTART:20260305T170000Z");
+    expect(lines).toContain("DTEND:20260305T173000Z");
+    expect(lines).toContain("SUMMARY:Call the vendor");
+    expect(lines).not.toContain("BEGIN:VALARM");
+    expect(lines.at(-2)).toBe("END:VCALENDAR");
+  });
+
+  it("adds an alarm for a reminder", () => {
+    const lines = unfold(exportIcs([note({ remindAt: dueAt - 15 * 60 * 1000 })]));
+
+    expect(lines).toContain("BEGIN:VALARM");
+    expect(lines).toContain("TRIGGER;VALUE=DATE-TIME:20260305T164500Z");
+  });
+
+  it("leaves out notes without a due date", () => {
+    expect(exportIcs([note({ dueAt: undefined })])).not.toContain("BEGIN:VEVENT");
+  });
+
+  it("escapes text and folds long lines", () => {
+    const content = `Agenda; budget, hiring\n${"a long line ".repeat(12)}`;
+    const ics = exportIcs([note({ title: "Plan, then act", content })]);
+
+    expect(ics.split("\r\n").every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(unfold(ics)).toContain("SUMMARY:Plan\\, then act");
+    expect(unfold(ics).find((line) => line.startsWith("DESCRIPTION:"))).toContain(
+      String.raw`DESCRIPTION:Agenda\; budget\, hiring\na long line`,
+    );
+  });
+});
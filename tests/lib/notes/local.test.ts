@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { changesNote, draftNote, mergeNotes, newImports, patchNoteIn } from "@/lib/notes/local";
+import type { Note } from "@/lib/notes/types";
+
+function note(id: string, fields: Partial<Note> = {}): Note {
+  return { id, content: `Note ${id}`, createdAt: 0, updatedAt: 0, revision: 1, ...fields };
+}
+
+describe("draftNote", () => {
+  it("makes an unsynced note with its tags", () => {
+    const draft = draftNote("Pick up #groceries", { language: "en" }, 42);
+
+    expect(draft).toMatchObject({
+      content: "Pick up #groceries",
+      language: "en",
+      tags: ["groceries"],
+      createdAt: 42,
+      updatedAt: 42,
+      revision: 0,
+    });
+    expect(draft.id).not.toBe(draftNote("Again").id);
+  });
+
+  it("keeps the id of the recording it was made from", () => {
+    expect(draftNote("Transcript", {}, 42, "recording-1").id).toBe("recording-1");
+  });
+});
+
+describe("changesNote", () => {
+  it("is false for a patch that sets what's already there", () => {
+    const current = note("a", { title: "Title" });
+
+    expect(changesNote(current, { content: current.content, title: "Title" })).toBe(false);
+    expect(changesNote(current, { title: "New title" })).toBe(true);
+    expect(changesNote(current, { title: null })).toBe(true);
+  });
+});
+
+describe("patchNoteIn", () => {
+  it("patches one note, stamping the edit time", () => {
+    const notes = [note("a"), note("b", { summary: ["Point"] })];
+
+    const patched = patchNoteIn(notes, "b", { content: "Now #tagged", summary: null }, 99);
+
+    expect(patched[0]).toBe(notes[0]);
+    expect(patched[1]).toEqual({ ...note("b"), content: "Now #tagged", tags: ["tagged"], updatedAt: 99, contentUpdatedAt: 99 });
+  });
+});
+
+describe("newImports / mergeNotes", () => {
+  it("skips notes already present and keeps the list newest first", () => {
+    const notes = [note("b", { createdAt: 2 })];
+    const incoming = [note("a", { createdAt: 1 }), note("b", { content: "Changed" }), note("c", { createdAt: 3 })];
+
+    const added = newImports(notes, incoming);
+
+    expect(added.map((n) => n.id)).toEqual(["a", "c"]);
+    expect(mergeNotes(notes, added).map((n) => n.id)).toEqual(["c", "b", "a"]);
+  });
+});
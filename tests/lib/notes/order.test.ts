@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { manualKey, positionBetween } from "@/lib/notes/order";
+import { sortNotes } from "@/lib/notes/search";
+import type { Note } from "@/lib/notes/types";
+
+function note(id: string, fields: Partial<Note> = {}): Note {
+  return { id, content: `Note ${id}`, createdAt: 0, updatedAt: 0, revision: 1, ...fields };
+}
+
+const ids = (notes: Note[]) => notes.map((n) => n.id);
+
+describe("positionBetween", () => {
+  it("places a note between its neighbours, or past the one at an end", () => {
+    const first = note("a", { position: 1 });
+    const second = note("b", { position: 2 });
+
+    expect(positionBetween(first, second)).toBe(1.5);
+    expect(positionBetween(undefined, first)).toBe(0);
+    expect(positionBetween(second, undefined)).toBe(3);
+    expect(positionBetween(undefined, undefined)).toBe(0);
+  });
+
+  it("orders notes never moved by hand newest first", () => {
+    const older = note("a", { createdAt: 100 });
+    const newer = note("b", { createdAt: 200 });
+
+    expect(manualKey(newer)).toBeLessThan(manualKey(older));
+    expect(positionBetween(newer, older)).toBe(-150);
+  });
+});
+
+describe("sortNotes", () => {
+  it("lists pinned notes first in every order", () => {
+    const notes = [note("a", { createdAt: 1 }), note("b", { createdAt: 2, pinned: true }), note("c", { createdAt: 3 })];
+
+    expect(ids(sortNotes(notes, "created-desc"))).toEqual(["b", "c", "a"]);
+    expect(ids(sortNotes(notes, "created-asc"))).toEqual(["b", "a", "c"]);
+  });
+
+  it("follows positions in the manual order", () => {
+    const notes = [note("a", { createdAt: 1 }), note("b", { createdAt: 2, position: 5 }), note("c", { createdAt: 3 })];
+
+    expect(ids(sortNotes(notes, "manual"))).toEqual(["c", "a", "b"]);
+  });
+});
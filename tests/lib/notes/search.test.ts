@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { highlightPattern } from "@/lib/notes/search";
+
+// The parts Highlight would mark, from text decomposed as it does.
+function marked(text: string, query: string): string[] {
+  const parts = text.normalize("NFD").split(highlightPattern(query)!);
+  return parts.filter((_, i) => i % 2 === 1).map((part) => part.normalize("NFC"));
+}
+
+describe("highlightPattern", () => {
+  it("marks words starting with a term, not the term inside a word", () => {
+    expect(marked("Milk, buttermilk and milkshakes", "milk")).toEqual(["Milk", "milk"]);
+  });
+
+  it("ignores diacritics on either side, as search does", () => {
+    expect(marked("Meet at the Café Noir", "cafe")).toEqual(["Café"]);
+    expect(marked("Order more cafe beans", "café")).toEqual(["cafe"]);
+  });
+
+  it("marks hashtags by their name and ignores a blank query", () => {
+    expect(marked("Buy eggs #errands", "#err")).toEqual(["err"]);
+    expect(highlightPattern("  ")).toBeNull();
+  });
+});
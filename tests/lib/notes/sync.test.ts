@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { applyOutbox, enqueue, flushOutbox, readOutbox, type OutboxOp } from "@/lib/notes/sync";
+import type { Note } from "@/lib/notes/types";
+
+function note(id: string, fields: Partial<Note> = {}): Note {
+  return { id, content: `Note ${id}`, createdAt: 0, updatedAt: 0, revision: 1, ...fields };
+}
+
+const writer = { writerId: "tab-1" };
+
+describe("applyOutbox", () => {
+  it("shows queued changes over the server's copy", () => {
+    const server = [note("a", { createdAt: 1 }), note("b", { createdAt: 2 })];
+    const ops: OutboxOp[] = [
+      { ...writer, opId: "1", type: "create", note: note("c", { createdAt: 3, revision: 0 }) },
+      { ...writer, opId: "2", type: "update", id: "a", patch: { content: "Edited" }, baseRevision: 1, editedAt: 50 },
+      { ...writer, opId: "3", type: "delete", id: "b", baseRevision: 1 },
+    ];
+
+    expect(applyOutbox(server, ops)).toEqual([
+      note("c", { createdAt: 3, revision: 0 }),
+      { ...note("a", { createdAt: 1 }), content: "Edited", tags: [], updatedAt: 50 },
+    ]);
+  });
+
+  it("doesn't add a queued note the server already has", () => {
+    const server = [note("a", { content: "Synced" })];
+    const ops: OutboxOp[] = [{ ...writer, opId: "1", type: "create", note: note("a", { content: "Queued", revision: 0 }) }];
+
+    expect(applyOutbox(server, ops)).toEqual(server);
+  });
+
+  it("applies edits in the order they were made", () => {
+    const ops: OutboxOp[] = [
+      { ...writer, opId: "1", type: "update", id: "a", patch: { content: "First" }, baseRevision: 1, editedAt: 1 },
+      { ...writer, opId: "2", type: "update", id: "a", patch: { content: "Second" }, baseRevision: 1, editedAt: 2 },
+    ];
+
+    expect(applyOutbox([note("a")], ops)[0].content).toBe("Second");
+  });
+});
+
+// A Storage stand-in for the node environment.
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+describe("flushOutbox", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", memoryStorage());
+    vi.stubGlobal("sessionStorage", memoryStorage());
+  });
+
+  it("sends changes queued after an empty flush", async () => {
+    const fetch = vi.fn(async () => Response.json({ note: note("a") }, { status: 201 }));
+    vi.stubGlobal("fetch", fetch);
+
+    await flushOutbox();
+    enqueue({ type: "create", note: note("a", { revision: 0 }) });
+    await flushOutbox();
+
+    expect(fetch).toHaveBeenCalledWith("/api/notes", expect.objectContaining({ method: "POST" }));
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("keeps changes queued while offline", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new TypeError("Failed to fetch"))));
+    enqueue({ type: "create", note: note("a", { revision: 0 }) });
+
+    await expect(flushOutbox()).rejects.toThrow(TypeError);
+    expect(readOutbox()).toHaveLength(1);
+  });
+
+  it("keeps a change queued through a server error and sends it on the next flush", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({ error: "Internal server error" }, { status: 503 }))
+      .mockResolvedValue(Response.json({ note: note("a") }, { status: 201 }));
+    vi.stubGlobal("fetch", fetch);
+    enqueue({ type: "create", note: note("a", { revision: 0 }) });
+
+    await expect(flushOutbox()).rejects.toMatchObject({ status: 503 });
+    expect(readOutbox()).toHaveLength(1);
+
+    await flushOutbox();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("keeps a change queued through a proxy's HTML error page", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("<html>Bad Gateway</html>", { status: 502 })));
+    enqueue({ type: "create", note: note("a", { revision: 0 }) });
+
+    await expect(flushOutbox()).rejects.toMatchObject({ name: "NotesApiError", status: 502 });
+    expect(readOutbox()).toHaveLength(1);
+  });
+
+  it("takes an undone delete back out of the trash, or sends the note again when the trash is off", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(Response.json({ error: "Note is not in the trash" }, { status: 404 }))
+      .mockResolvedValue(Response.json({ note: note("a") }, { status: 201 }));
+    vi.stubGlobal("fetch", fetch);
+    enqueue({ type: "delete", id: "a", baseRevision: 1 });
+    enqueue({ type: "restore", note: note("a") });
+
+    expect(applyOutbox([note("a")])).toEqual([note("a")]);
+    await flushOutbox();
+
+    expect(fetch.mock.calls.map(([url, init]) => `${init.method} ${url.split("?")[0]}`)).toEqual([
+      "DELETE /api/notes/a",
+      "POST /api/notes/trash/a",
+      "POST /api/notes",
+    ]);
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("drops a change the server refuses", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ error: "Note content is required" }, { status: 400 })));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    enqueue({ type: "create", note: note("a", { revision: 0 }) });
+
+    await flushOutbox();
+    expect(readOutbox()).toEqual([]);
+  });
+});
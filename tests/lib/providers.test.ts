@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { chooseProviders, firstToSucceed } from "@/lib/providers";
+
+const providers = {
+  openai: { id: "openai" },
+  gemini: { id: "gemini" },
+  mock: { id: "mock" },
+};
+
+describe("chooseProviders", () => {
+  it("uses every vendor with an API key when none are configured", () => {
+    vi.stubEnv("TEST_PROVIDERS", "");
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("GEMINI_API_KEY", "key");
+
+    expect(chooseProviders(providers, "TEST_PROVIDERS", "test")).toEqual([providers.gemini]);
+  });
+
+  it("follows the configured order and refuses unknown names", () => {
+    vi.stubEnv("TEST_PROVIDERS", " Mock, openai ");
+    expect(chooseProviders(providers, "TEST_PROVIDERS", "test")).toEqual([providers.mock, providers.openai]);
+
+    vi.stubEnv("TEST_PROVIDERS", "whisper");
+    expect(() => chooseProviders(providers, "TEST_PROVIDERS", "test")).toThrow('Unknown test provider "whisper"');
+
+    vi.stubEnv("TEST_PROVIDERS", "toString");
+    expect(() => chooseProviders(providers, "TEST_PROVIDERS", "test")).toThrow('Unknown test provider "tostring"');
+  });
+});
+
+describe("firstToSucceed", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  const timedOut = (provider: { id: string }) => new Error(`${provider.id} timed out`);
+
+  it("fails over to the next provider, including one that hangs", async () => {
+    const attempt = vi.fn(async (provider: { id: string }) => {
+      if (provider.id === "openai") throw new Error("down");
+      if (provider.id === "gemini") return new Promise<string>(() => {});
+      return "from mock";
+    });
+
+    const result = await firstToSucceed(Object.values(providers), attempt, { label: "Test", timeoutMs: 10, timedOut });
+
+    expect(result).toBe("from mock");
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it("throws the last error when every provider fails", async () => {
+    const hang = () => new Promise<string>(() => {});
+
+    await expect(firstToSucceed([providers.openai, providers.gemini], hang, { label: "Test", timeoutMs: 10, timedOut })).rejects.toThrow(
+      "gemini timed out",
+    );
+  });
+});
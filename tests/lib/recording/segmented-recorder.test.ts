@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SegmentedRecorder, type SegmentInfo } from "@/lib/recording/segmented-recorder";
+import { FakeMediaRecorder, fakeStream } from "../../helpers/fake-media";
+
+// Lets the fake recorders' onstop callbacks run.
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("SegmentedRecorder", () => {
+  let segments: { blob: Blob; info: SegmentInfo }[];
+
+  beforeEach(() => {
+    FakeMediaRecorder.instances = [];
+    vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+    segments = [];
+  });
+
+  function start() {
+    const media = fakeStream();
+    const recorder = new SegmentedRecorder(media.stream, "audio/webm", (blob, info) => segments.push({ blob, info }));
+    recorder.start();
+    return { recorder, track: media.track };
+  }
+
+  it("records the whole take alongside the first segment", () => {
+    start();
+
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(FakeMediaRecorder.instances.every((instance) => instance.state === "recording")).toBe(true);
+    expect(FakeMediaRecorder.instances[0].options.mimeType).toBe("audio/webm");
+  });
+
+  it("starts a new segment each time it rotates", async () => {
+    const { recorder } = start();
+
+    recorder.rotate();
+    await settle();
+    recorder.rotate();
+    await settle();
+
+    expect(segments.map(({ info }) => [info.sequence, info.final])).toEqual([
+      [0, false],
+      [1, false],
+    ]);
+    expect(FakeMediaRecorder.instances.at(-1)?.state).toBe("recording");
+  });
+
+  it("ends with a final segment, the whole recording and the microphone off", async () => {
+    const { recorder, track } = start();
+    recorder.rotate();
+    await settle();
+
+    recorder.stop();
+    await settle();
+
+    expect(segments.at(-1)?.info).toMatchObject({ sequence: 1, final: true });
+    expect(segments.at(-1)?.blob.type).toBe("audio/webm");
+    expect((await recorder.whole).size).toBeGreaterThan(0);
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it("ends the take when stopped mid-rotation", async () => {
+    const { recorder, track } = start();
+
+    recorder.rotate();
+    recorder.stop();
+    await settle();
+
+    expect(segments.map(({ info }) => info)).toEqual([expect.objectContaining({ sequence: 0, final: true })]);
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it("ignores a second stop and rotations after stopping", async () => {
+    const { recorder } = start();
+
+    recorder.stop();
+    recorder.stop();
+    recorder.rotate();
+    await settle();
+
+    expect(segments).toHaveLength(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { initialVoiceState, voiceReducer, type VoiceEvent, type VoiceState } from "@/lib/recording/state";
+
+function run(...events: VoiceEvent[]): VoiceState {
+  return events.reduce(voiceReducer, initialVoiceState);
+}
+
+describe("voiceReducer", () => {
+  it("goes through a whole take", () => {
+    expect(run({ type: "start" }).status).toBe("recording");
+    expect(run({ type: "start" }, { type: "stop" }).status).toBe("idle");
+    expect(run({ type: "start" }, { type: "stop" }, { type: "process" }).status).toBe("processing");
+    expect(run({ type: "start" }, { type: "stop" }, { type: "process" }, { type: "done" })).toEqual(initialVoiceState);
+  });
+
+  it("counts time only while recording", () => {
+    const recording = run({ type: "start" }, { type: "tick", elapsedSeconds: 3 });
+    expect(recording.elapsedSeconds).toBe(3);
+
+    expect(voiceReducer(run(), { type: "tick", elapsedSeconds: 5 }).elapsedSeconds).toBe(0);
+  });
+
+  it("starts each take afresh", () => {
+    const previous = run(
+      { type: "start" },
+      { type: "tick", elapsedSeconds: 12 },
+      { type: "stop" },
+      { type: "error", message: "Couldn't hear clearly" },
+    );
+
+    expect(voiceReducer(previous, { type: "start" })).toEqual({ ...initialVoiceState, status: "recording" });
+  });
+
+  it("won't start while the last take is being transcribed", () => {
+    const processing = run({ type: "start" }, { type: "stop" }, { type: "process" });
+
+    expect(voiceReducer(processing, { type: "start" })).toBe(processing);
+  });
+
+  it("ends the take when the microphone fails", () => {
+    const state = run({ type: "start" }, { type: "mic-failed", message: "Permission denied." });
+
+    expect(state).toMatchObject({ status: "idle", error: "Permission denied." });
+  });
+
+  it("keeps recording when an earlier take finishes processing", () => {
+    // Released and pressed again before the first take's last segment was cut.
+    const state = run({ type: "start" }, { type: "stop" }, { type: "start" }, { type: "process" }, { type: "done" });
+
+    expect(state.status).toBe("recording");
+  });
+
+  it("shows the live transcript until the take is done", () => {
+    const live = run({ type: "start" }, { type: "transcript", text: "So far" });
+    expect(live.liveTranscript).toBe("So far");
+
+    expect(run({ type: "start" }, { type: "transcript", text: "So far" }, { type: "stop" }, { type: "process" }, { type: "done" }).liveTranscript).toBe("");
+  });
+
+  it("keeps an error raised as the take ends", () => {
+    const state = run({ type: "start" }, { type: "stop" }, { type: "error", message: "Hold longer to record" }, { type: "process" });
+
+    expect(state.error).toBe("Hold longer to record");
+  });
+
+  it("sets and clears errors without touching the status", () => {
+    const recording = run({ type: "start" });
+
+    expect(voiceReducer(recording, { type: "error", message: "AI processing failed" })).toMatchObject({
+      status: "recording",
+      error: "AI processing failed",
+    });
+    expect(run({ type: "error", message: "Oops" }, { type: "error", message: null }).error).toBeNull();
+  });
+});
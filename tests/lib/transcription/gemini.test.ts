@@ -0,0 +1,40 @@
+import { ApiError } from "@google/genai";
+import { describe, expect, it, vi } from "vitest";
+import { getGemini } from "@/lib/gemini";
+import { geminiProvider } from "@/lib/transcription/gemini";
+import { TranscriptionError } from "@/lib/transcription/types";
+
+vi.mock("@/lib/gemini", () => ({ getGemini: vi.fn() }));
+
+function failWith(error: unknown) {
+  const generateContent = vi.fn().mockRejectedValue(error);
+  vi.mocked(getGemini).mockReturnValue({ models: { generateContent } } as unknown as ReturnType<typeof getGemini>);
+}
+
+function transcribe() {
+  return geminiProvider.transcribe({ audio: new Blob(["audio"], { type: "audio/webm" }), filename: "audio.webm" });
+}
+
+describe("geminiProvider", () => {
+  it("reports audio Gemini rejects as bad audio", async () => {
+    failWith(new ApiError({ message: "Unsupported MIME type: audio/x-unknown", status: 400 }));
+
+    await expect(transcribe()).rejects.toMatchObject({ code: "bad_audio", status: 422, provider: "gemini" });
+  });
+
+  it("reports a rejected API key or quota as a provider failure, not as the client's", async () => {
+    failWith(new ApiError({ message: "API key not valid. Please pass a valid API key.", status: 400 }));
+    await expect(transcribe()).rejects.toMatchObject({ code: "provider_error", status: 502 });
+
+    failWith(new ApiError({ message: "Resource has been exhausted", status: 429 }));
+    await expect(transcribe()).rejects.toMatchObject({ code: "provider_error", status: 503 });
+  });
+
+  it("wraps network failures", async () => {
+    failWith(new TypeError("fetch failed"));
+
+    const error = await transcribe().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(TranscriptionError);
+    expect(error).toMatchObject({ code: "provider_error", status: 502, message: "fetch failed" });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { wavByteRate } from "@/lib/transcription/audio-format";
+import { estimateAudioSeconds } from "@/lib/transcription/limits";
+
+function wavHeader(byteRate: number): Uint8Array {
+  const bytes = new Uint8Array(44);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode("RIFF"), 0);
+  bytes.set(new TextEncoder().encode("WAVEfmt "), 8);
+  view.setUint32(28, byteRate, true);
+  return bytes;
+}
+
+describe("estimateAudioSeconds", () => {
+  it("sizes a WAV file by the bitrate in its header", () => {
+    const byteRate = wavByteRate(wavHeader(32_000));
+
+    expect(byteRate).toBe(32_000);
+    expect(estimateAudioSeconds(320_000, 1000, byteRate)).toBe(10);
+  });
+
+  it("won't take a declared length shorter than the size allows at 256 kbps", () => {
+    expect(estimateAudioSeconds(3_200_000, 1000)).toBe(100);
+    expect(estimateAudioSeconds(3_200_000, 300_000)).toBe(300);
+  });
+
+  it("counts an undeclared length as if the audio were barely compressed", () => {
+    // An hour of 24 kbps Opus.
+    const hourOfOpus = 3600 * 3000;
+
+    expect(estimateAudioSeconds(hourOfOpus)).toBeGreaterThan(3600);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { Note } from "@/lib/notes/types";
+import { commandEdit, parseVoiceCommand, resolveTarget, toChecklist } from "@/lib/voice-commands";
+
+function note(id: string, content: string, updatedAt: number): Note {
+  return { id, content, createdAt: updatedAt, updatedAt, revision: 1 };
+}
+
+describe("parseVoiceCommand", () => {
+  it("recognises commands about the last note", () => {
+    expect(parseVoiceCommand("Add to the last note: call mum.")).toEqual({
+      type: "append",
+      target: { kind: "last" },
+      text: "Call mum",
+    });
+    expect(parseVoiceCommand("Delete that")).toEqual({ type: "delete", target: { kind: "last" } });
+    expect(parseVoiceCommand("Make it a checklist")).toEqual({ type: "checklist", target: { kind: "last" } });
+  });
+
+  it("recognises commands about a note on a topic", () => {
+    expect(parseVoiceCommand("change the note about groceries to eggs and milk")).toEqual({
+      type: "replace",
+      target: { kind: "about", topic: "groceries" },
+      text: "Eggs and milk",
+    });
+  });
+
+  it("leaves ordinary dictation alone", () => {
+    expect(parseVoiceCommand("I need to delete old photos from my phone")).toBeNull();
+    expect(parseVoiceCommand("Add milk to the shopping list")).toBeNull();
+  });
+});
+
+describe("resolveTarget", () => {
+  const notes = [note("a", "Grocery list: eggs", 1), note("b", "Meeting notes", 2)];
+
+  it("finds the most recently edited note", () => {
+    expect(resolveTarget({ kind: "last" }, notes)?.id).toBe("b");
+  });
+
+  it("finds a note by topic, folding plurals", () => {
+    expect(resolveTarget({ kind: "about", topic: "the groceries" }, notes)?.id).toBe("a");
+    expect(resolveTarget({ kind: "about", topic: "holidays" }, notes)).toBeUndefined();
+  });
+});
+
+describe("commandEdit", () => {
+  const target = note("a", "Groceries: eggs, milk and bread", 1);
+
+  it("appends, rewrites and turns notes into checklists", () => {
+    expect(commandEdit({ type: "append", target: { kind: "last" }, text: "Butter" }, target)).toEqual({
+      content: "Groceries: eggs, milk and bread\nButter",
+      message: 'Added to "Groceries: eggs, milk and bread"',
+    });
+    expect(commandEdit({ type: "replace", target: { kind: "last" }, text: "Just eggs" }, target).content).toBe("Just eggs");
+    expect(commandEdit({ type: "checklist", target: { kind: "last" } }, target).content).toBe(
+      toChecklist(target.content),
+    );
+  });
+});
+
+describe("toChecklist", () => {
+  it("splits a single line into items under its heading", () => {
+    expect(toChecklist("Groceries: eggs, milk and bread.")).toBe("Groceries:\n- [ ] Eggs\n- [ ] Milk\n- [ ] Bread");
+  });
+
+  it("keeps existing items and makes one item per line", () => {
+    expect(toChecklist("- [x] Done\n2) call bank")).toBe("- [x] Done\n- [ ] Call bank");
+  });
+});
@@ -0,0 +1,19 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Tests run in Node by default; component tests opt into jsdom with a
+// `@vitest-environment jsdom` comment at the top of the file.
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    include: ["tests/**/*.test.{ts,tsx}"],
+    restoreMocks: true,
+    unstubEnvs: true,
+    unstubGlobals: true,
+  },
+});